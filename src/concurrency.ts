@@ -0,0 +1,67 @@
+/**
+ * Concurrency helpers for bulk operations
+ */
+
+// Default number of operations run in parallel
+export const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Validate a concurrency limit
+ *
+ * @param concurrency Requested concurrency
+ * @returns The concurrency, or the default when undefined
+ */
+export function resolveConcurrency(concurrency: number | undefined): number {
+  if (concurrency === undefined) {
+    return DEFAULT_CONCURRENCY;
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('concurrency must be a positive integer');
+  }
+  return concurrency;
+}
+
+/**
+ * Run a task for each item with at most `concurrency` tasks in flight
+ *
+ * Items are started in order. Once `shouldStop` returns true, no further items are started;
+ * tasks already running are awaited.
+ *
+ * @param items Items to process
+ * @param concurrency Maximum number of tasks in flight
+ * @param task Task to run for each item; must not reject
+ * @param shouldStop Optional predicate checked before starting each item
+ */
+export async function forEachWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, worker);
+  await Promise.all(workers);
+}
+
+/**
+ * Split items into consecutive chunks
+ *
+ * @param items Items to split
+ * @param size Maximum chunk size
+ * @returns Array of chunks
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
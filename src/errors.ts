@@ -0,0 +1,305 @@
+/**
+ * Error types for ContactsManager SDK server calls
+ */
+
+import { parseRetryAfter } from './retry';
+
+/**
+ * Interface for a validation error on a single field
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+  code?: string;
+}
+
+/**
+ * Interface for error details reported by the server
+ */
+export interface ServerErrorDetails {
+  errorCode?: string; // Machine-readable error code from the server
+  serverMessage?: string; // Human-readable message from the server
+  requestId?: string; // Server-side request identifier for support
+  fieldErrors?: FieldError[]; // Per-field validation failures
+  retryAfterMs?: number; // How long the server asked us to wait
+  resetAt?: Date; // When the rate limit window resets
+}
+
+/**
+ * Minimal view of response headers used for error parsing
+ */
+export interface HeadersLike {
+  get(name: string): string | null;
+}
+
+/**
+ * Custom error class for server API errors
+ */
+export class ServerAPIError extends Error {
+  public statusCode?: number;
+  public responseData?: any;
+  public attempts?: number;
+  public errorCode?: string;
+  public serverMessage?: string;
+  public requestId?: string;
+
+  constructor(
+    message: string,
+    statusCode?: number,
+    responseData?: any,
+    attempts?: number,
+    details: ServerErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'ServerAPIError';
+    this.statusCode = statusCode;
+    this.responseData = responseData;
+    this.attempts = attempts;
+    this.errorCode = details.errorCode;
+    this.serverMessage = details.serverMessage;
+    this.requestId = details.requestId;
+  }
+}
+
+/**
+ * Error thrown when the server rejects the credentials (401)
+ */
+export class AuthenticationError extends ServerAPIError {
+  constructor(message: string, statusCode?: number, responseData?: any, attempts?: number, details?: ServerErrorDetails) {
+    super(message, statusCode, responseData, attempts, details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Error thrown when the credentials lack permission for the operation (403)
+ */
+export class PermissionDeniedError extends ServerAPIError {
+  constructor(message: string, statusCode?: number, responseData?: any, attempts?: number, details?: ServerErrorDetails) {
+    super(message, statusCode, responseData, attempts, details);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * Error thrown when the requested resource does not exist (404)
+ */
+export class NotFoundError extends ServerAPIError {
+  constructor(message: string, statusCode?: number, responseData?: any, attempts?: number, details?: ServerErrorDetails) {
+    super(message, statusCode, responseData, attempts, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Error thrown when the server rejects the request payload (400, 422)
+ */
+export class ValidationError extends ServerAPIError {
+  public fieldErrors: FieldError[];
+
+  constructor(message: string, statusCode?: number, responseData?: any, attempts?: number, details: ServerErrorDetails = {}) {
+    super(message, statusCode, responseData, attempts, details);
+    this.name = 'ValidationError';
+    this.fieldErrors = details.fieldErrors || [];
+  }
+}
+
+/**
+ * Error thrown when the request conflicts with the current server state (409)
+ */
+export class ConflictError extends ServerAPIError {
+  constructor(message: string, statusCode?: number, responseData?: any, attempts?: number, details?: ServerErrorDetails) {
+    super(message, statusCode, responseData, attempts, details);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Error thrown when the rate limit has been exceeded (429)
+ */
+export class RateLimitError extends ServerAPIError {
+  public retryAfterMs?: number;
+  public resetAt?: Date;
+
+  constructor(message: string, statusCode?: number, responseData?: any, attempts?: number, details: ServerErrorDetails = {}) {
+    super(message, statusCode, responseData, attempts, details);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = details.retryAfterMs;
+    this.resetAt = details.resetAt;
+  }
+}
+
+/**
+ * Error thrown when the server fails to process the request (5xx)
+ */
+export class InternalServerError extends ServerAPIError {
+  constructor(message: string, statusCode?: number, responseData?: any, attempts?: number, details?: ServerErrorDetails) {
+    super(message, statusCode, responseData, attempts, details);
+    this.name = 'InternalServerError';
+  }
+}
+
+/**
+ * Error thrown when the server could not be reached
+ */
+export class NetworkError extends ServerAPIError {
+  constructor(message: string, attempts?: number) {
+    super(message, undefined, undefined, attempts);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Error thrown when a server request does not complete within the configured timeout
+ */
+export class ServerAPITimeoutError extends NetworkError {
+  public timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number, attempts?: number) {
+    super(message, attempts);
+    this.name = 'ServerAPITimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error thrown when a server request is cancelled through its AbortSignal
+ */
+export class ServerAPIAbortError extends ServerAPIError {
+  constructor(message: string, attempts?: number) {
+    super(message, undefined, undefined, attempts);
+    this.name = 'ServerAPIAbortError';
+  }
+}
+
+/**
+ * Error thrown when a successful response has a body that is not valid JSON
+ *
+ * The server may already have applied the request, so it is never retried.
+ */
+export class InvalidResponseError extends ServerAPIError {
+  constructor(message: string, statusCode?: number, attempts?: number) {
+    super(message, statusCode, undefined, attempts);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * Read the first string value found at the given keys
+ */
+function pickString(source: any, ...keys: string[]): string | undefined {
+  if (!source || typeof source !== 'object') {
+    return undefined;
+  }
+  for (const key of keys) {
+    if (typeof source[key] === 'string' && source[key]) {
+      return source[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract per-field validation errors from an error body
+ *
+ * Supports both `detail: [{ loc, msg, type }]` lists and `errors: [{ field, message, code }]` lists.
+ */
+function parseFieldErrors(data: any): FieldError[] {
+  const body = data && typeof data === 'object' ? data : {};
+  const nested = body.error && typeof body.error === 'object' ? body.error : {};
+  const entries = [body.detail, body.errors, nested.details, nested.errors].find(Array.isArray);
+
+  if (!entries) {
+    return [];
+  }
+
+  return entries
+    .filter((entry: any) => entry && typeof entry === 'object')
+    .map((entry: any) => ({
+      field: Array.isArray(entry.loc)
+        ? entry.loc.filter((part: any) => part !== 'body').join('.')
+        : String(entry.field ?? ''),
+      message: String(entry.msg ?? entry.message ?? ''),
+      code: pickString(entry, 'type', 'code'),
+    }));
+}
+
+/**
+ * Extract error details from a server error response
+ *
+ * @param data Parsed JSON error body, if any
+ * @param headers Response headers, if available
+ * @param now Current time in milliseconds
+ * @returns Parsed error details
+ */
+export function parseErrorDetails(data: any, headers?: HeadersLike, now: number = Date.now()): ServerErrorDetails {
+  const nested = data && typeof data === 'object' && typeof data.error === 'object' ? data.error : undefined;
+  const details: ServerErrorDetails = {
+    errorCode: pickString(nested, 'code') ?? pickString(data, 'code', 'error_code'),
+    serverMessage: pickString(nested, 'message') ?? pickString(data, 'message', 'detail', 'error'),
+    requestId:
+      headers?.get('x-request-id') ?? pickString(nested, 'request_id') ?? pickString(data, 'request_id') ?? undefined,
+  };
+
+  const fieldErrors = parseFieldErrors(data);
+  if (fieldErrors.length > 0) {
+    details.fieldErrors = fieldErrors;
+  }
+
+  const retryAfterMs = parseRetryAfter(headers?.get('retry-after'), now);
+  if (retryAfterMs !== undefined) {
+    details.retryAfterMs = retryAfterMs;
+    details.resetAt = new Date(now + retryAfterMs);
+  }
+
+  const resetHeader = headers?.get('x-ratelimit-reset');
+  if (resetHeader && /^\d+$/.test(resetHeader.trim())) {
+    details.resetAt = new Date(parseInt(resetHeader, 10) * 1000);
+  }
+
+  return details;
+}
+
+/**
+ * Create the appropriate ServerAPIError subclass for a failed server response
+ *
+ * @param failureMessage Prefix describing the failed operation
+ * @param statusCode HTTP status code of the response
+ * @param data Parsed JSON error body, if any
+ * @param headers Response headers, if available
+ * @param attempts Number of attempts made
+ * @returns Typed server API error
+ */
+export function createServerAPIError(
+  failureMessage: string,
+  statusCode: number,
+  data?: any,
+  headers?: HeadersLike,
+  attempts?: number
+): ServerAPIError {
+  const details = parseErrorDetails(data, headers);
+  const message = details.serverMessage
+    ? `${failureMessage}: ${statusCode} - ${details.serverMessage}`
+    : `${failureMessage}: ${statusCode}`;
+
+  switch (statusCode) {
+    case 400:
+    case 422:
+      return new ValidationError(message, statusCode, data, attempts, details);
+    case 401:
+      return new AuthenticationError(message, statusCode, data, attempts, details);
+    case 403:
+      return new PermissionDeniedError(message, statusCode, data, attempts, details);
+    case 404:
+      return new NotFoundError(message, statusCode, data, attempts, details);
+    case 409:
+      return new ConflictError(message, statusCode, data, attempts, details);
+    case 429:
+      return new RateLimitError(message, statusCode, data, attempts, details);
+    default:
+      if (statusCode >= 500) {
+        return new InternalServerError(message, statusCode, data, attempts, details);
+      }
+      return new ServerAPIError(message, statusCode, data, attempts, details);
+  }
+}
@@ -1,5 +1,24 @@
 import jwt from 'jsonwebtoken';
-import { ContactsManagerClient, UserInfo, DeviceInfo, ServerAPIError } from './index';
+import {
+  ContactsManagerClient,
+  UserInfo,
+  DeviceInfo,
+  ServerAPIError,
+  ServerAPITimeoutError,
+  ServerAPIAbortError,
+  AuthenticationError,
+  PermissionDeniedError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  RateLimitError,
+  InternalServerError,
+  NetworkError,
+  InvalidResponseError,
+  createTokenEndpoint,
+  expressTokenEndpoint,
+  deviceInfoFromHeaders
+} from './index';
 import crypto from 'crypto';
 
 // For TypeScript type checking
@@ -11,8 +30,13 @@ declare namespace jest {
     mockReturnValue: (val: T) => Mock<T, Y>;
     mockReturnThis: () => Mock<T, Y>;
     mockClear: () => void;
+    mockReset: () => void;
+    mockRestore: () => void;
+    mockResolvedValue: (val: T) => Mock<T, Y>;
     mockResolvedValueOnce: (val: T) => Mock<T, Y>;
+    mockRejectedValue: (val: any) => Mock<T, Y>;
     mockRejectedValueOnce: (val: any) => Mock<T, Y>;
+    mock: { calls: Y[] };
   }
 }
 declare const describe: any;
@@ -36,7 +60,7 @@ describe('ContactsManagerClient', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (jwt.sign as jest.Mock).mockReturnValue('mock-jwt-token');
-    (global.fetch as jest.Mock).mockClear();
+    (global.fetch as jest.Mock).mockReset();
   });
 
   describe('constructor', () => {
@@ -71,6 +95,50 @@ describe('ContactsManagerClient', () => {
       const client = new ContactsManagerClient(mockConfig);
       expect(client).toBeInstanceOf(ContactsManagerClient);
     });
+
+    it('should default to the production base URL', () => {
+      const client = new ContactsManagerClient(mockConfig);
+      expect(client.getBaseUrl()).toBe('https://api.contactsmanager.io');
+    });
+
+    it('should resolve a named environment', () => {
+      const client = new ContactsManagerClient({ ...mockConfig, environment: 'local' });
+      expect(client.getBaseUrl()).toBe('http://localhost:8000');
+    });
+
+    it('should normalize a custom base URL', () => {
+      const client = new ContactsManagerClient({
+        ...mockConfig,
+        baseUrl: 'https://eu.example.com/contacts//'
+      });
+      expect(client.getBaseUrl()).toBe('https://eu.example.com/contacts');
+    });
+
+    it('should reject invalid base URLs', () => {
+      expect(() => {
+        new ContactsManagerClient({ ...mockConfig, baseUrl: 'not a url' });
+      }).toThrow('Invalid baseUrl');
+
+      expect(() => {
+        new ContactsManagerClient({ ...mockConfig, baseUrl: 'ftp://example.com' });
+      }).toThrow('Invalid baseUrl protocol');
+    });
+
+    it('should reject unknown environments', () => {
+      expect(() => {
+        new ContactsManagerClient({ ...mockConfig, environment: 'qa' as any });
+      }).toThrow('Unknown environment: qa');
+    });
+
+    it('should reject both baseUrl and environment', () => {
+      expect(() => {
+        new ContactsManagerClient({
+          ...mockConfig,
+          baseUrl: 'https://example.com',
+          environment: 'staging'
+        });
+      }).toThrow('Specify either baseUrl or environment, not both');
+    });
   });
 
   describe('generateToken', () => {
@@ -270,11 +338,28 @@ describe('ContactsManagerClient', () => {
     });
 
     it('should handle network errors', async () => {
-      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
 
       await expect(client.createUser(validUserInfo)).rejects.toThrow(
         'Network error while creating user'
       );
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should send requests to the configured base URL', async () => {
+      const stagingClient = new ContactsManagerClient({ ...mockConfig, baseUrl: 'http://localhost:9000/' });
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: 'success' })
+      });
+
+      await stagingClient.createUser(validUserInfo);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:9000/api/v1/server/users/test-user-123',
+        expect.any(Object)
+      );
     });
   });
 
@@ -340,11 +425,970 @@ describe('ContactsManagerClient', () => {
     });
 
     it('should handle network errors', async () => {
-      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
 
       await expect(client.deleteUser('test-user-123')).rejects.toThrow(
         'Network error while deleting user'
       );
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('bulkDeleteUsers', () => {
+    const client = new ContactsManagerClient({ ...mockConfig, retry: false });
+
+    const respondByUser = (statuses: Record<string, number>) => (url: string) => {
+      const uid = url.split('/').pop() as string;
+      const status = statuses[uid] ?? 200;
+      return Promise.resolve({
+        ok: status === 200,
+        status,
+        json: async () => (status === 200
+          ? { status: 'success', message: 'User deleted', data: { deleted_contact_id: `c-${uid}` } }
+          : { detail: 'Error' })
+      });
+    };
+
+    it('should summarize deleted, missing and failed users', async () => {
+      (global.fetch as jest.Mock).mockImplementation(respondByUser({ u2: 404, u3: 500 }));
+      const onProgress = jest.fn();
+
+      const result = await client.bulkDeleteUsers(['u1', 'u2', 'u3', 'u1'], { concurrency: 2, onProgress });
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect(result.deleted).toEqual(['u1']);
+      expect(result.missing).toEqual(['u2']);
+      expect(result.failed).toHaveLength(1);
+      expect(result.failed[0].userId).toBe('u3');
+      expect(result.failed[0].error).toBeInstanceOf(InternalServerError);
+      expect(result.skipped).toEqual([]);
+      expect(onProgress).toHaveBeenLastCalledWith({ processed: 3, total: 3, succeeded: 2, failed: 1 });
+    });
+
+    it('should skip remaining users after a failure when stopOnError is set', async () => {
+      (global.fetch as jest.Mock).mockImplementation(respondByUser({ u1: 403 }));
+
+      const result = await client.bulkDeleteUsers(['u1', 'u2', 'u3'], { concurrency: 1, stopOnError: true });
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(result.failed[0].error).toBeInstanceOf(PermissionDeniedError);
+      expect(result.skipped).toEqual(['u2', 'u3']);
+    });
+
+    it('should validate user IDs before deleting anything', async () => {
+      await expect(client.bulkDeleteUsers(['u1', ''])).rejects.toThrow(
+        'Every user ID must be a non-empty string'
+      );
+      await expect(client.bulkDeleteUsers('u1' as any)).rejects.toThrow('uids must be an array of strings');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUser', () => {
+    const client = new ContactsManagerClient({ ...mockConfig, retry: false });
+
+    it('should fetch a user successfully', async () => {
+      const user = {
+        id: 'contact-123',
+        organization_id: 'test-org-id',
+        organization_user_id: 'test-user-123',
+        email: 'test@example.com',
+        full_name: 'Test User',
+        is_active: true
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: 'success', data: { user } })
+      });
+
+      const result = await client.getUser('test-user-123');
+
+      expect(result).toEqual(user);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.contactsmanager.io/api/v1/server/users/test-user-123',
+        expect.objectContaining({
+          method: 'GET',
+          headers: expect.objectContaining({
+            'Authorization': 'Bearer mock-jwt-token'
+          })
+        })
+      );
+    });
+
+    it('should encode the user ID in the URL path', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: 'success', data: { user: { organization_user_id: 'a/b?c=1#d e' } } })
+      });
+
+      await client.getUser('a/b?c=1#d e');
+
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe(
+        'https://api.contactsmanager.io/api/v1/server/users/a%2Fb%3Fc%3D1%23d%20e'
+      );
+    });
+
+    it('should return null when the user does not exist', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: async () => ({ detail: 'User not found' })
+      });
+
+      await expect(client.getUser('missing-user')).resolves.toBeNull();
+    });
+
+    it('should rethrow other server errors', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ detail: 'Invalid token' })
+      });
+
+      await expect(client.getUser('test-user-123')).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    it('should throw error for invalid uid', async () => {
+      await expect(client.getUser('')).rejects.toThrow(
+        'User ID is required and must be a string'
+      );
+    });
+  });
+
+  describe('updateUser', () => {
+    const client = new ContactsManagerClient({ ...mockConfig, retry: false });
+    const updatedUser = {
+      id: 'contact-123',
+      organization_id: 'test-org-id',
+      organization_user_id: 'test-user-123',
+      avatar_url: 'https://example.com/new.jpg',
+      is_active: true
+    };
+
+    const success = () => ({
+      ok: true,
+      json: async () => ({ status: 'success', data: { user: updatedUser } })
+    });
+
+    it('should send only the changed fields', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(success());
+
+      const result = await client.updateUser('test-user-123', { avatarUrl: 'https://example.com/new.jpg' });
+
+      expect(result).toEqual(updatedUser);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.contactsmanager.io/api/v1/server/users/test-user-123',
+        expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify({ user_info: { avatarUrl: 'https://example.com/new.jpg' } })
+        })
+      );
+    });
+
+    it('should merge metadata by default and support replace', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(success()).mockResolvedValueOnce(success());
+
+      await client.updateUser('test-user-123', { metadata: { plan: 'pro' } });
+      await client.updateUser('test-user-123', { metadata: { plan: 'pro' }, metadataMode: 'replace' });
+
+      const bodies = (global.fetch as any).mock.calls.map((call: any[]) => JSON.parse(call[1].body));
+      expect(bodies[0]).toEqual({ user_info: { metadata: { plan: 'pro' } }, metadata_mode: 'merge' });
+      expect(bodies[1]).toEqual({ user_info: { metadata: { plan: 'pro' } }, metadata_mode: 'replace' });
+    });
+
+    it('should send explicit nulls to clear fields', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(success());
+
+      await client.updateUser('test-user-123', { phone: null, avatarUrl: null, email: undefined });
+
+      expect(JSON.parse((global.fetch as any).mock.calls[0][1].body)).toEqual({
+        user_info: { phone: null, avatarUrl: null }
+      });
+    });
+
+    it('should validate the patch', async () => {
+      await expect(client.updateUser('test-user-123', {})).rejects.toThrow(
+        'patch must contain at least one field to update'
+      );
+      await expect(client.updateUser('test-user-123', { fullName: ' ' })).rejects.toThrow(
+        'fullName must be a non-empty string'
+      );
+      await expect(client.updateUser('test-user-123', { email: 42 as any })).rejects.toThrow(
+        'email must be a string or null'
+      );
+      await expect(client.updateUser('test-user-123', { metadata: ['a'] as any })).rejects.toThrow(
+        'metadata must be an object or null'
+      );
+      await expect(client.updateUser('test-user-123', { fullName: 'A', metadataMode: 'replace' })).rejects.toThrow(
+        'metadataMode requires metadata'
+      );
+      await expect(client.updateUser('', { fullName: 'A' })).rejects.toThrow(
+        'User ID is required and must be a string'
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bulkUpsertUsers', () => {
+    const client = new ContactsManagerClient({ ...mockConfig, retry: false, serverCredential: true });
+
+    const users: UserInfo[] = [
+      { userId: 'u1', fullName: 'User One', email: 'one@example.com' },
+      { userId: 'u2', fullName: 'User Two', phone: '+15550000002' },
+      { userId: 'u3', fullName: 'User Three', email: 'three@example.com' }
+    ];
+
+    const bulkResponse = (results: any[]) => ({
+      ok: true,
+      json: async () => ({ status: 'success', data: { results } })
+    });
+
+    it('should upsert users in batches through the bulk endpoint', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(bulkResponse([
+          { user_id: 'u1', status: 'created', user: { id: 'c1' } },
+          { user_id: 'u2', status: 'updated', user: { id: 'c2' } }
+        ]))
+        .mockResolvedValueOnce(bulkResponse([
+          { user_id: 'u3', status: 'error', error: { code: 'invalid_email', message: 'Email rejected' } }
+        ]));
+      const onProgress = jest.fn();
+
+      const result = await client.bulkUpsertUsers(users, { batchSize: 2, onProgress });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.contactsmanager.io/api/v1/server/bulk/users',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ users: [{ user_info: users[0] }, { user_info: users[1] }] })
+        })
+      );
+      expect(result.succeeded).toBe(2);
+      expect(result.failed).toBe(1);
+      expect(result.skipped).toBe(0);
+      expect(result.results.map((r: any) => r.status)).toEqual(['created', 'updated', 'failed']);
+      expect(result.results[0].user).toEqual({ id: 'c1' });
+      expect(result.results[2].error).toBeInstanceOf(ServerAPIError);
+      expect((result.results[2].error as any).errorCode).toBe('invalid_email');
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith({ processed: 3, total: 3, succeeded: 2, failed: 1 });
+    });
+
+    it('should report invalid users without sending them', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(bulkResponse([
+        { user_id: 'u1', status: 'created', user: { id: 'c1' } }
+      ]));
+
+      const result = await client.bulkUpsertUsers([
+        users[0],
+        { userId: 'bad', fullName: '' } as UserInfo,
+        { ...users[0] }
+      ]);
+
+      expect(result.results[0].status).toBe('created');
+      expect(result.results[1].status).toBe('failed');
+      expect(result.results[1].error?.message).toBe('fullName is required and must be a non-empty string');
+      expect(result.results[2].error?.message).toBe('Duplicate userId: u1');
+      expect(JSON.parse((global.fetch as any).mock.calls[0][1].body).users).toHaveLength(1);
+    });
+
+    it('should skip everything after a validation failure when stopOnError is set', async () => {
+      const result = await client.bulkUpsertUsers(
+        [users[0], { userId: 'bad', fullName: 'No Contact' } as UserInfo],
+        { stopOnError: true }
+      );
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(result.results.map((r: any) => r.status)).toEqual(['skipped', 'failed']);
+      expect(result.skipped).toBe(1);
+    });
+
+    it('should send one createUser per user with the individual strategy', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ status: 'success', data: { user: { id: 'c' }, created: true } })
+      });
+
+      const result = await client.bulkUpsertUsers(users, { strategy: 'individual', concurrency: 2 });
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect((global.fetch as any).mock.calls.map((call: any[]) => call[0]).sort()).toEqual([
+        'https://api.contactsmanager.io/api/v1/server/users/u1',
+        'https://api.contactsmanager.io/api/v1/server/users/u2',
+        'https://api.contactsmanager.io/api/v1/server/users/u3'
+      ]);
+      expect(result.succeeded).toBe(3);
+    });
+
+    it.each([404, 405])('should fall back to individual upserts when the bulk endpoint answers %s', async (status: number) => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status, json: async () => ({ detail: 'Not Found' }) })
+        .mockResolvedValue({
+          ok: true,
+          json: async () => ({ status: 'success', data: { user: { id: 'c' }, created: true } })
+        });
+
+      const result = await client.bulkUpsertUsers(users, { batchSize: 2 });
+
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+      expect((global.fetch as any).mock.calls[0][0]).toBe('https://api.contactsmanager.io/api/v1/server/bulk/users');
+      expect((global.fetch as any).mock.calls.slice(1).map((call: any[]) => call[0]).sort()).toEqual([
+        'https://api.contactsmanager.io/api/v1/server/users/u1',
+        'https://api.contactsmanager.io/api/v1/server/users/u2',
+        'https://api.contactsmanager.io/api/v1/server/users/u3'
+      ]);
+      expect(result.succeeded).toBe(3);
+      expect(result.results.map((r: any) => r.status)).toEqual(['created', 'created', 'created']);
+    });
+
+    it('should not fall back to individual upserts with the bulk strategy', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404, json: async () => ({ detail: 'Not Found' }) });
+
+      const result = await client.bulkUpsertUsers(users, { strategy: 'bulk', batchSize: 2 });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(result.failed).toBe(3);
+      expect(result.results[0].error).toBeInstanceOf(NotFoundError);
+    });
+
+    it('should upsert individually without the server credential unless the bulk strategy is required', async () => {
+      const perUserClient = new ContactsManagerClient({ ...mockConfig, retry: false });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ status: 'success', data: { user: { id: 'c' }, created: false } })
+      });
+
+      await expect(perUserClient.bulkUpsertUsers(users, { strategy: 'bulk' })).rejects.toThrow(
+        'bulkUpsertUsers requires the server credential; create the client with serverCredential enabled'
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      const result = await perUserClient.bulkUpsertUsers(users);
+      expect(result.succeeded).toBe(3);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect((global.fetch as any).mock.calls[0][0]).not.toContain('/bulk/');
+    });
+
+    it('should mark a whole batch as failed when its request fails', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        json: async () => ({ detail: 'Internal error' })
+      });
+
+      const result = await client.bulkUpsertUsers(users);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(result.failed).toBe(3);
+      expect(result.results[0].error).toBeInstanceOf(InternalServerError);
+    });
+
+    it('should validate options', async () => {
+      await expect(client.bulkUpsertUsers(users, { concurrency: 0 })).rejects.toThrow(
+        'concurrency must be a positive integer'
+      );
+      await expect(client.bulkUpsertUsers(users, { batchSize: 1.5 })).rejects.toThrow(
+        'batchSize must be a positive integer'
+      );
+      await expect(client.bulkUpsertUsers('users' as any)).rejects.toThrow(
+        'users must be an array of UserInfo objects'
+      );
+      await expect(client.bulkUpsertUsers(users, { strategy: 'parallel' as any })).rejects.toThrow(
+        "strategy must be 'auto', 'bulk' or 'individual'"
+      );
+    });
+  });
+
+  describe('listUsers', () => {
+    const client = new ContactsManagerClient({ ...mockConfig, retry: false, serverCredential: true });
+
+    const user = (id: string) => ({
+      id,
+      organization_id: 'test-org-id',
+      organization_user_id: id,
+      is_active: true
+    });
+
+    const page = (ids: string[], nextCursor: string | null) => ({
+      ok: true,
+      json: async () => ({ status: 'success', data: { users: ids.map(user), next_cursor: nextCursor } })
+    });
+
+    it('should list a page of users with filters', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(page(['u1', 'u2'], 'cursor-2'));
+
+      const result = await client.listUsers({
+        limit: 2,
+        cursor: 'cursor-1',
+        updatedSince: new Date('2024-01-01T00:00:00Z'),
+        isActive: true
+      });
+
+      expect(result).toEqual({
+        users: [user('u1'), user('u2')],
+        nextCursor: 'cursor-2',
+        hasMore: true
+      });
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.contactsmanager.io/api/v1/server/users?limit=2&cursor=cursor-1' +
+          '&updated_since=2024-01-01T00%3A00%3A00.000Z&is_active=true',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(jwt.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'server:test-org-id', principal: 'server' }),
+        'test-api-secret',
+        { algorithm: 'HS256' }
+      );
+    });
+
+    it('should report the last page', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(page(['u1'], null));
+
+      const result = await client.listUsers();
+
+      expect(result.nextCursor).toBeNull();
+      expect(result.hasMore).toBe(false);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.contactsmanager.io/api/v1/server/users',
+        expect.any(Object)
+      );
+    });
+
+    it('should validate parameters', async () => {
+      await expect(client.listUsers({ limit: 0 })).rejects.toThrow('limit must be a positive integer');
+      await expect(client.listUsers({ updatedSince: 'yesterday' })).rejects.toThrow(
+        'updatedSince must be a valid date'
+      );
+    });
+
+    it('should iterate over all pages', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(page(['u1', 'u2'], 'cursor-2'))
+        .mockResolvedValueOnce(page(['u3'], 'cursor-3'))
+        .mockResolvedValueOnce(page([], null));
+
+      const ids: string[] = [];
+      for await (const item of client.iterateUsers({ limit: 2, isActive: true })) {
+        ids.push(item.id);
+      }
+
+      expect(ids).toEqual(['u1', 'u2', 'u3']);
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect((global.fetch as any).mock.calls[1][0]).toContain('cursor=cursor-2');
+      expect((global.fetch as any).mock.calls[2][0]).toContain('cursor=cursor-3');
+    });
+
+    it('should sign a single server token for the whole iteration', async () => {
+      const iterating = new ContactsManagerClient({ ...mockConfig, retry: false, serverCredential: true });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(page(['u1'], 'cursor-2'))
+        .mockResolvedValueOnce(page(['u2'], 'cursor-3'))
+        .mockResolvedValueOnce(page(['u3'], null));
+
+      const ids: string[] = [];
+      for await (const item of iterating.iterateUsers()) {
+        ids.push(item.id);
+      }
+
+      expect(ids).toEqual(['u1', 'u2', 'u3']);
+      expect(jwt.sign).toHaveBeenCalledTimes(1);
+      expect(jwt.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ principal: 'server' }),
+        'test-api-secret',
+        { algorithm: 'HS256' }
+      );
+    });
+
+    it('should require the server credential', async () => {
+      const perUserClient = new ContactsManagerClient({ ...mockConfig, retry: false });
+
+      await expect(perUserClient.listUsers()).rejects.toThrow(
+        'listUsers requires the server credential; create the client with serverCredential enabled'
+      );
+      await expect(perUserClient.iterateUsers().next()).rejects.toThrow('listUsers requires the server credential');
+      expect(jwt.sign).not.toHaveBeenCalled();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retries', () => {
+    const client = new ContactsManagerClient({
+      ...mockConfig,
+      retry: { baseDelayMs: 1, jitter: false }
+    });
+
+    const userInfo: UserInfo = {
+      userId: 'test-user-123',
+      fullName: 'Test User',
+      email: 'test@example.com'
+    };
+
+    const failure = (status: number, retryAfter?: string) => ({
+      ok: false,
+      status,
+      headers: { get: (name: string) => (name === 'retry-after' ? retryAfter ?? null : null) },
+      json: async () => ({ detail: 'Temporary failure' })
+    });
+
+    it('should retry retryable status codes and then succeed', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(failure(502))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'success' }) });
+
+      const result = await client.createUser(userInfo);
+
+      expect(result).toEqual({ status: 'success' });
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should surface the attempt count on the final error', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(failure(500));
+
+      await expect(client.deleteUser('test-user-123')).rejects.toMatchObject({
+        statusCode: 500,
+        attempts: 3
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-retryable status codes', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(failure(400));
+
+      await expect(client.createUser(userInfo)).rejects.toMatchObject({
+        statusCode: 400,
+        attempts: 1
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honor a short Retry-After header', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(failure(429, '0'))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'success' }) });
+
+      await expect(client.createUser(userInfo)).resolves.toEqual({ status: 'success' });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up when Retry-After exceeds the maximum delay', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(failure(429, '120'));
+
+      await expect(client.createUser(userInfo)).rejects.toMatchObject({
+        statusCode: 429,
+        attempts: 1
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a successful response whose body is not valid JSON', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => { throw new SyntaxError('Unexpected token < in JSON at position 0'); }
+      });
+
+      const error: any = await client.createUser(userInfo).catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(InvalidResponseError);
+      expect(error).not.toBeInstanceOf(NetworkError);
+      expect(error).toMatchObject({ statusCode: 200, attempts: 1 });
+      expect(error.message).toMatch(/^Failed to create user: response body is not valid JSON/);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry transport failures while reading the body', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => { throw new TypeError('terminated'); } })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'success' }) });
+
+      await expect(client.deleteUser('test-user-123')).resolves.toEqual({ status: 'success' });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should make a single attempt when retries are disabled', async () => {
+      const noRetryClient = new ContactsManagerClient({ ...mockConfig, retry: false });
+      (global.fetch as jest.Mock).mockResolvedValue(failure(503));
+
+      await expect(noRetryClient.deleteUser('test-user-123')).rejects.toThrow('Failed to delete user: 503');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid retry options', () => {
+      expect(() => {
+        new ContactsManagerClient({ ...mockConfig, retry: { maxAttempts: 0 } });
+      }).toThrow('retry.maxAttempts must be a positive integer');
+    });
+  });
+
+  describe('error parsing', () => {
+    const client = new ContactsManagerClient({ ...mockConfig, retry: false });
+
+    const errorResponse = (status: number, body: any, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+      json: async () => body
+    });
+
+    it.each([
+      [400, ValidationError],
+      [401, AuthenticationError],
+      [403, PermissionDeniedError],
+      [404, NotFoundError],
+      [409, ConflictError],
+      [422, ValidationError],
+      [429, RateLimitError],
+      [500, InternalServerError],
+      [503, InternalServerError]
+    ])('should map status %i to the matching error class', async (status: number, errorClass: any) => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse(status, {}));
+
+      const error = await client.deleteUser('test-user-123').catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error).toBeInstanceOf(ServerAPIError);
+      expect(error).toHaveProperty('statusCode', status);
+    });
+
+    it('should fall back to ServerAPIError for other statuses', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse(418, {}));
+
+      const error = await client.deleteUser('test-user-123').catch((e: Error) => e);
+
+      expect(error.constructor).toBe(ServerAPIError);
+    });
+
+    it('should expose the server error code, message and request id', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse(
+        403,
+        { error: { code: 'org_suspended', message: 'Organization is suspended' } },
+        { 'x-request-id': 'req-123' }
+      ));
+
+      const error: any = await client.deleteUser('test-user-123').catch((e: Error) => e);
+
+      expect(error.message).toBe('Failed to delete user: 403 - Organization is suspended');
+      expect(error.errorCode).toBe('org_suspended');
+      expect(error.serverMessage).toBe('Organization is suspended');
+      expect(error.requestId).toBe('req-123');
+    });
+
+    it('should parse per-field validation details', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse(422, {
+        detail: [
+          { loc: ['body', 'user_info', 'email'], msg: 'value is not a valid email address', type: 'value_error.email' }
+        ]
+      }));
+
+      const error: any = await client.createUser({
+        userId: 'test-user-123',
+        fullName: 'Test User',
+        email: 'not-an-email'
+      }).catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.fieldErrors).toEqual([
+        { field: 'user_info.email', message: 'value is not a valid email address', code: 'value_error.email' }
+      ]);
+    });
+
+    it('should report when the rate limit resets', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1609459200000);
+      (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse(
+        429,
+        { detail: 'Too many requests', request_id: 'req-456' },
+        { 'retry-after': '30' }
+      ));
+
+      const error: any = await client.deleteUser('test-user-123').catch((e: Error) => e);
+      (Date.now as jest.Mock).mockRestore();
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfterMs).toBe(30000);
+      expect(error.resetAt).toEqual(new Date(1609459230000));
+      expect(error.requestId).toBe('req-456');
+    });
+
+    it('should raise NetworkError when the server cannot be reached', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      const error = await client.deleteUser('test-user-123').catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error).toHaveProperty('statusCode', undefined);
+    });
+  });
+
+  describe('timeouts and cancellation', () => {
+    const userInfo: UserInfo = {
+      userId: 'test-user-123',
+      fullName: 'Test User',
+      email: 'test@example.com'
+    };
+
+    // fetch stand-in that never settles unless its signal is aborted
+    const hangingFetch = (_url: string, init: { signal: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+      });
+
+    it('should throw a timeout error when the server does not respond in time', async () => {
+      const client = new ContactsManagerClient({ ...mockConfig, timeoutMs: 10, retry: false });
+      (global.fetch as jest.Mock).mockImplementation(hangingFetch);
+
+      const error: any = await client.createUser(userInfo).catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(ServerAPITimeoutError);
+      expect(error).toBeInstanceOf(ServerAPIError);
+      expect(error.message).toBe('Network error while creating user: timed out after 10ms');
+      expect(error.timeoutMs).toBe(10);
+      expect(error.attempts).toBe(1);
+    });
+
+    it('should retry timed out attempts', async () => {
+      const client = new ContactsManagerClient({
+        ...mockConfig,
+        timeoutMs: 10,
+        retry: { maxAttempts: 2, baseDelayMs: 1 }
+      });
+      (global.fetch as jest.Mock).mockImplementation(hangingFetch);
+
+      await expect(client.deleteUser('test-user-123')).rejects.toMatchObject({
+        name: 'ServerAPITimeoutError',
+        attempts: 2
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cancel an in-flight request through its AbortSignal', async () => {
+      const client = new ContactsManagerClient({ ...mockConfig, timeoutMs: 0 });
+      (global.fetch as jest.Mock).mockImplementation(hangingFetch);
+      const controller = new AbortController();
+
+      const pending = client.deleteUser('test-user-123', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 5);
+
+      await expect(pending).rejects.toBeInstanceOf(ServerAPIAbortError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not send a request when the signal is already aborted', async () => {
+      const client = new ContactsManagerClient(mockConfig);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.createUser(userInfo, undefined, 86400, { signal: controller.signal })
+      ).rejects.toThrow('Network error while creating user: request aborted');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject a negative timeout', () => {
+      expect(() => {
+        new ContactsManagerClient({ ...mockConfig, timeoutMs: -1 });
+      }).toThrow('timeoutMs must be a non-negative number');
+    });
+  });
+
+  // Per-user tokens are only minted with the server credential disabled
+  describe('token cache', () => {
+    const okResponse = () => ({
+      ok: true,
+      json: async () => ({ status: 'success', data: { user: { organization_user_id: 'test-user-123' } } })
+    });
+
+    it('should mint a new token for every call when disabled', async () => {
+      const client = new ContactsManagerClient({ ...mockConfig, retry: false });
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+
+      await client.getUser('test-user-123');
+      await client.getUser('test-user-123');
+
+      expect(jwt.sign).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reuse tokens per user and device', async () => {
+      const client = new ContactsManagerClient({ ...mockConfig, retry: false, tokenCache: true });
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+      const userInfo = { userId: 'test-user-123', fullName: 'Test User', email: 'test@example.com' };
+
+      await client.getUser('test-user-123');
+      await client.updateUser('test-user-123', { fullName: 'Renamed' });
+      expect(jwt.sign).toHaveBeenCalledTimes(1);
+
+      await client.createUser(userInfo, { os: 'iOS', deviceType: 'mobile' });
+      await client.createUser(userInfo, { deviceType: 'mobile', os: 'iOS' });
+      expect(jwt.sign).toHaveBeenCalledTimes(2);
+
+      await client.createUser(userInfo, { deviceType: 'mobile', os: 'Android' });
+      await client.getUser('other-user');
+      expect(jwt.sign).toHaveBeenCalledTimes(4);
+    });
+
+    it('should mint a new token once the cached one is within the refresh margin', async () => {
+      const client = new ContactsManagerClient({
+        ...mockConfig,
+        retry: false,
+        serverCredential: false,
+        tokenCache: { refreshMarginSeconds: 300 }
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await client.getUser('test-user-123');
+      (Date.now as jest.Mock).mockReturnValue(now + (86400 - 301) * 1000);
+      await client.getUser('test-user-123');
+      expect(jwt.sign).toHaveBeenCalledTimes(1);
+
+      (Date.now as jest.Mock).mockReturnValue(now + (86400 - 299) * 1000);
+      await client.getUser('test-user-123');
+      (Date.now as jest.Mock).mockRestore();
+
+      expect(jwt.sign).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict the least recently used token when full', async () => {
+      const client = new ContactsManagerClient({ ...mockConfig, retry: false, tokenCache: { maxEntries: 2 } });
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+
+      await client.getUser('user-a');
+      await client.getUser('user-b');
+      await client.getUser('user-a');
+      await client.getUser('user-c'); // Evicts user-b
+      expect(jwt.sign).toHaveBeenCalledTimes(3);
+
+      await client.getUser('user-a');
+      expect(jwt.sign).toHaveBeenCalledTimes(3);
+
+      await client.getUser('user-b');
+      expect(jwt.sign).toHaveBeenCalledTimes(4);
+    });
+
+    it('should drop tokens on invalidation, deletion and revocation', async () => {
+      const client = new ContactsManagerClient({ ...mockConfig, retry: false, tokenCache: true });
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+
+      await client.getUser('test-user-123');
+      client.invalidateTokenCache('test-user-123');
+      await client.getUser('test-user-123');
+      expect(jwt.sign).toHaveBeenCalledTimes(2);
+
+      await client.deleteUser('test-user-123');
+      await client.getUser('test-user-123');
+      expect(jwt.sign).toHaveBeenCalledTimes(3);
+
+      await client.revokeAllForUser('test-user-123');
+      await client.getUser('test-user-123');
+      expect(jwt.sign).toHaveBeenCalledTimes(4);
+
+      client.invalidateTokenCache();
+      await client.getUser('test-user-123');
+      await client.getUser('test-user-123');
+      expect(jwt.sign).toHaveBeenCalledTimes(5);
+    });
+
+    it('should validate cache options', () => {
+      expect(() => new ContactsManagerClient({ ...mockConfig, tokenCache: { maxEntries: 0 } })).toThrow(
+        'tokenCache.maxEntries must be a positive integer'
+      );
+      expect(() => new ContactsManagerClient({ ...mockConfig, tokenCache: { refreshMarginSeconds: -1 } })).toThrow(
+        'tokenCache.refreshMarginSeconds must be a non-negative number'
+      );
+    });
+
+    it('should reject a token cache combined with the server credential', () => {
+      expect(() => new ContactsManagerClient({ ...mockConfig, serverCredential: true, tokenCache: true })).toThrow(
+        'Specify only one of tokenCache or serverCredential'
+      );
+      expect(() => new ContactsManagerClient({ ...mockConfig, serverCredential: {}, tokenCache: { maxEntries: 10 } })).toThrow(
+        'Specify only one of tokenCache or serverCredential'
+      );
+      expect(() => new ContactsManagerClient({ ...mockConfig, serverCredential: false, tokenCache: true })).not.toThrow();
+      expect(() => new ContactsManagerClient({ ...mockConfig, serverCredential: true, tokenCache: false })).not.toThrow();
+    });
+  });
+
+  describe('server credential', () => {
+    const okResponse = () => ({
+      ok: true,
+      json: async () => ({ status: 'success', data: { user: { organization_user_id: 'test-user-123' } } })
+    });
+
+    it('should authenticate administrative calls as the server when enabled', async () => {
+      const client = new ContactsManagerClient({ ...mockConfig, retry: false, serverCredential: true });
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await client.deleteUser('test-user-123');
+      (Date.now as jest.Mock).mockRestore();
+
+      const iat = Math.floor(now / 1000);
+      expect(jwt.sign).toHaveBeenCalledWith(
+        {
+          user_id: 'server:test-org-id',
+          api_key: 'test-api-key',
+          org_id: 'test-org-id',
+          principal: 'server',
+          jti: expect.any(String),
+          iat,
+          exp: iat + 300
+        },
+        'test-api-secret',
+        { algorithm: 'HS256' }
+      );
+    });
+
+    it('should reuse the server token across requests until it nears expiry', async () => {
+      const client = new ContactsManagerClient({
+        ...mockConfig,
+        retry: false,
+        serverCredential: { expirationSeconds: 120 }
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+      const userInfo = { userId: 'test-user-123', fullName: 'Test User', email: 'test@example.com' };
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await client.createUser(userInfo, { os: 'iOS' });
+      await client.getUser('test-user-123');
+      await client.updateUser('other-user', { fullName: 'Renamed' });
+      await client.deleteUser('test-user-123');
+      await client.listUsers();
+      expect(jwt.sign).toHaveBeenCalledTimes(1);
+
+      (Date.now as jest.Mock).mockReturnValue(now + 91 * 1000);
+      await client.getUser('test-user-123');
+      (Date.now as jest.Mock).mockRestore();
+
+      expect(jwt.sign).toHaveBeenCalledTimes(2);
+    });
+
+    it.each([
+      ['by default', {}],
+      ['when disabled', { serverCredential: false }],
+    ])('should authenticate as the target user %s', async (_: string, options: { serverCredential?: boolean }) => {
+      const client = new ContactsManagerClient({ ...mockConfig, retry: false, ...options });
+      (global.fetch as jest.Mock).mockResolvedValue(okResponse());
+
+      await client.deleteUser('test-user-123');
+
+      expect(jwt.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'test-user-123', device: {} }),
+        'test-api-secret',
+        { algorithm: 'HS256' }
+      );
+      expect((jwt.sign as jest.Mock).mock.calls[0][0]).not.toHaveProperty('principal');
+    });
+
+    it('should validate the server token lifetime', () => {
+      expect(() => new ContactsManagerClient({ ...mockConfig, serverCredential: { expirationSeconds: 30 } })).toThrow(
+        'serverCredential.expirationSeconds must be an integer greater than 30'
+      );
     });
   });
 
@@ -443,4 +1487,147 @@ describe('ContactsManagerClient', () => {
       expect(result).toBe(false);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('token endpoint', () => {
+    const client = new ContactsManagerClient({ ...mockConfig, retry: false });
+    const user: UserInfo = { userId: 'user-123', fullName: 'Test User', email: 'test@example.com' };
+    const iPhoneHeaders = {
+      'user-agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148',
+      'accept-language': 'fr-FR,fr;q=0.9,en;q=0.8',
+      'x-app-version': '2.3.1',
+      'x-timezone': 'Europe/Paris'
+    };
+
+    const createUserResponse = {
+      status: 'success',
+      data: { token: { token: 'cm-token', expires_at: 1234567890 }, user: { id: 'contact-123' }, created: true }
+    };
+
+    const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+      json: async () => ({})
+    });
+
+    it('should derive device information from request headers', () => {
+      expect(deviceInfoFromHeaders(iPhoneHeaders)).toEqual({
+        deviceType: 'mobile',
+        os: 'iOS',
+        appVersion: '2.3.1',
+        locale: 'fr-FR',
+        timezone: 'Europe/Paris'
+      });
+      expect(deviceInfoFromHeaders(new Headers({
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0',
+        'X-Device-Type': 'desktop'
+      }))).toEqual({ deviceType: 'desktop', os: 'Windows' });
+      expect(deviceInfoFromHeaders({})).toEqual({});
+    });
+
+    it('should upsert the resolved user and return the token payload', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => createUserResponse });
+      const request = { headers: iPhoneHeaders, session: { user } };
+      const endpoint = createTokenEndpoint({
+        client,
+        resolveUser: (req: typeof request) => req.session.user,
+        resolveDevice: (_: typeof request, derived: DeviceInfo) => ({ ...derived, appVersion: '2.3.2' }),
+        expirationSeconds: 3600
+      });
+
+      const response = await endpoint(request);
+
+      expect(response).toEqual({
+        status: 200,
+        headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+        body: { contactsmanager_token: 'cm-token', expires_at: 1234567890, user_created: true }
+      });
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/v1/server/users/user-123'),
+        expect.objectContaining({
+          body: JSON.stringify({
+            expiry_seconds: 3600,
+            user_info: user,
+            device_info: {
+              os: 'iOS',
+              deviceType: 'mobile',
+              appVersion: '2.3.2',
+              locale: 'fr-FR',
+              timezone: 'Europe/Paris'
+            }
+          })
+        })
+      );
+    });
+
+    it('should respond 401 when no user is signed in', async () => {
+      const endpoint = createTokenEndpoint({ client, resolveUser: async () => null });
+
+      const response = await endpoint({ headers: {} });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual({ error: 'unauthenticated', message: 'Authentication required' });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [422, 400, 'invalid_user'],
+      [503, 502, 'upstream_error']
+    ])('should map server status %i to %i', async (serverStatus: number, status: number, error: string) => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse(serverStatus));
+      const endpoint = createTokenEndpoint({ client, resolveUser: () => user });
+
+      const response = await endpoint({ headers: {} });
+
+      expect(response.status).toBe(status);
+      expect(response.body).toEqual(expect.objectContaining({ error }));
+    });
+
+    it('should pass rate limits on with Retry-After', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(errorResponse(429, { 'retry-after': '30' }));
+      const endpoint = createTokenEndpoint({ client, resolveUser: () => user });
+
+      const response = await endpoint({ headers: {} });
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('30');
+      expect(response.body).toEqual(expect.objectContaining({ error: 'rate_limited' }));
+    });
+
+    it('should respond 500 and report errors thrown by callbacks', async () => {
+      const failure = new Error('session store unavailable');
+      const onError = jest.fn();
+      const request = { headers: {} };
+      const endpoint = createTokenEndpoint({ client, resolveUser: () => { throw failure; }, onError });
+
+      const response = await endpoint(request);
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'internal_error', message: 'Failed to issue token' });
+      expect(onError).toHaveBeenCalledWith(failure, request);
+    });
+
+    it('should write the response through the Express adapter', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => createUserResponse });
+      const handler = expressTokenEndpoint(createTokenEndpoint({ client, resolveUser: () => user }));
+      const res = { statusCode: 0, setHeader: jest.fn(), end: jest.fn() };
+
+      await handler({ headers: iPhoneHeaders }, res as any);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.setHeader).toHaveBeenCalledWith('content-type', 'application/json');
+      expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({
+        contactsmanager_token: 'cm-token',
+        expires_at: 1234567890,
+        user_created: true
+      });
+    });
+
+    it('should validate its options', () => {
+      expect(() => createTokenEndpoint({ client, resolveUser: undefined as any }))
+        .toThrow('resolveUser is required and must be a function');
+      expect(() => createTokenEndpoint({ client: undefined as any, resolveUser: () => user }))
+        .toThrow('client is required');
+    });
+  });
+});
@@ -1,14 +1,152 @@
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
-import { ServerAPI, ServerAPIError, UserInfo, DeviceInfo, CreateUserResponse, DeleteUserResponse, CMUser } from './server-api';
+import { ServerAPI, ServerAPIOptions, RequestOptions, UserInfo, DeviceInfo, CreateUserResponse, DeleteUserResponse, GetUserResponse, UserPatch, UpdateUserResponse, ListUsersParams, ListUsersResponse, BulkUpsertUserResult, BulkUpsertUsersResponse, CMUser, validateUserInfo } from './server-api';
+import {
+  ServerAPIError,
+  AuthenticationError,
+  PermissionDeniedError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  RateLimitError,
+  InternalServerError,
+  NetworkError,
+  ServerAPITimeoutError,
+  ServerAPIAbortError,
+  InvalidResponseError,
+  FieldError,
+  ServerErrorDetails,
+} from './errors';
+import {
+  TokenPayload,
+  TokenHeader,
+  DecodedToken,
+  VerifiedToken,
+  VerifyTokenOptions,
+  RefreshTokenOptions,
+  MAX_REFRESH_GRACE_SECONDS,
+  TokenErrorReason,
+  TokenVerificationError,
+  MalformedTokenError,
+  InvalidTokenSignatureError,
+  TokenExpiredError,
+  WrongOrganizationError,
+  InvalidTokenClaimsError,
+  TokenNotYetValidError,
+  TokenReuseError,
+  TokenRevokedError,
+  RESERVED_CLAIMS,
+  checkTokenClaims,
+  decodeToken,
+  toTokenVerificationError,
+} from './token';
+import { RevocationStore, InMemoryRevocationStore, DEFAULT_REVOCATION_TTL_SECONDS } from './revocation';
+import { TokenRotationStore, InMemoryTokenRotationStore } from './rotation';
+import { ApiKeyring, ApiSecretKey, validateKeyring, getActiveKey, getVerificationKeys } from './keyring';
+import { TokenCache, TokenCacheOptions, deviceFingerprint } from './token-cache';
+import {
+  AsymmetricAlgorithm,
+  AsymmetricSigningKey,
+  PublicJwk,
+  JsonWebKeySet,
+  ResolvedSigningKey,
+  resolveSigningKey,
+  signAsymmetricToken,
+  verifyAsymmetricToken,
+  exportPublicJwks,
+} from './signing';
+import {
+  WebhookEvent,
+  WebhookEventType,
+  WebhookEventOfType,
+  WebhookEventBase,
+  UserCreatedEvent,
+  UserUpdatedEvent,
+  UserDeletedEvent,
+  ContactMatchedEvent,
+  WebhookSignatureError,
+  WebhookSignatureErrorReason,
+  WebhookVerifyOptions,
+  WebhookSignatureHeader,
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  WEBHOOK_SIGNATURE_HEADER,
+  SignWebhookOptions,
+  TestWebhookRequestOptions,
+  TestWebhookRequest,
+  signWebhookPayload,
+  createTestWebhookRequest,
+  verifyWebhookPayload,
+  parseWebhookEvent,
+} from './webhook';
+import {
+  WebhookEventStore,
+  InMemoryWebhookEventStore,
+  IdempotentHandlerOptions,
+  IdempotentHandlerResult,
+  WebhookDelivery,
+  createIdempotentHandler,
+} from './webhook-store';
+import {
+  WebhookMiddlewareOptions,
+  WebhookRequest,
+  contactsManagerWebhook,
+} from './webhook-middleware';
+import { DEFAULT_WEBHOOK_BODY_LIMIT_BYTES } from './webhook-core';
+import { WebhookEventHandlers, HandleWebhookRequestOptions, handleWebhookRequest } from './webhook-fetch';
+import {
+  WebhookHandlerContext,
+  WebhookRouteHandler,
+  WebhookRouteOptions,
+  WebhookRouterOptions,
+  WebhookHandlerOutcome,
+  WebhookDispatchResult,
+  WebhookHandlerTimeoutError,
+  WebhookDispatchError,
+  WebhookRouter,
+} from './webhook-router';
+import {
+  TokenEndpointHeaders,
+  TokenEndpointRequest,
+  TokenEndpointPayload,
+  TokenEndpointErrorBody,
+  TokenEndpointResponse,
+  TokenEndpointOptions,
+  TokenEndpoint,
+  deviceInfoFromHeaders,
+  createTokenEndpoint,
+  expressTokenEndpoint,
+} from './token-endpoint';
+import { chunk, forEachWithConcurrency, resolveConcurrency } from './concurrency';
+import { resolveRetryPolicy, RetryOptions, DEFAULT_RETRY_OPTIONS } from './retry';
+import { resolveBaseUrl, ServerEnvironment, SERVER_BASE_URL, SERVER_ENVIRONMENTS } from './server-config';
 
 /**
  * Interface for ContactsManagerClient configuration
  */
 export interface ContactsManagerConfig {
   apiKey: string;
-  apiSecret: string;
+  apiSecret?: string; // Single signing secret (mutually exclusive with keyring)
+  keyring?: ApiKeyring; // Rotating signing secrets identified by kid
+  signingKey?: AsymmetricSigningKey; // Private key for RS256/ES256/EdDSA user tokens; server calls still use apiSecret or keyring
   orgId: string;
+  baseUrl?: string; // Custom server base URL (mutually exclusive with environment)
+  environment?: ServerEnvironment; // Named server environment (default: production)
+  retry?: RetryOptions | false; // Retry policy for server calls, or false to disable retries
+  timeoutMs?: number; // Per-attempt request timeout in milliseconds, 0 disables it (default: 30000)
+  revocationStore?: RevocationStore; // Where revoked tokens are recorded (default: in-memory)
+  rotationStore?: TokenRotationStore; // Where refreshed tokens are recorded for reuse detection (default: in-memory)
+  tokenCache?: TokenCacheOptions | boolean; // Reuse per-user tokens; not combinable with serverCredential (default: disabled)
+  serverCredential?: ServerCredentialOptions | boolean; // Server token for administrative calls (default: disabled, calls authenticate as the target user)
+  webhookSecret?: string | string[]; // Webhook secret, or several while rotating it (see setWebhookSecret)
+  webhookToleranceSeconds?: number; // Allowed webhook timestamp difference in seconds, in either direction (default: 900)
+  webhookEventStore?: WebhookEventStore; // Where seen webhook deliveries and events are recorded (default: in-memory)
+}
+
+/**
+ * Interface for server credential options
+ */
+export interface ServerCredentialOptions {
+  expirationSeconds?: number; // Lifetime of the server token (default: 300)
 }
 
 /**
@@ -18,6 +156,11 @@ export interface TokenParams {
   userId: string;
   deviceInfo?: DeviceInfo;
   expirationSeconds?: number;
+  claims?: Record<string, any>; // Custom claims; may not override reserved claims
+  scopes?: string[]; // Emitted as a space-delimited `scope` claim
+  audience?: string | string[]; // `aud` claim
+  issuer?: string; // `iss` claim
+  notBefore?: Date | number; // `nbf` claim, as a date or seconds from now
 }
 
 /**
@@ -26,6 +169,107 @@ export interface TokenParams {
 export interface TokenResponse {
   token: string;
   expiresAt: Date;
+  jti: string; // Unique token identifier
+  notBefore?: Date;
+  audience?: string | string[];
+  issuer?: string;
+  scopes?: string[];
+  claims?: Record<string, any>;
+}
+
+/**
+ * Interface for refresh token response
+ */
+export interface RefreshTokenResponse extends TokenResponse {
+  previousJti: string; // Identifier of the token that was rotated
+}
+
+/**
+ * Interface for a page of users returned by listUsers
+ */
+export interface ListUsersPage {
+  users: CMUser[];
+  nextCursor: string | null; // Pass as `cursor` to fetch the next page; null on the last page
+  hasMore: boolean;
+}
+
+/**
+ * Interface for bulk operation progress
+ */
+export interface BulkProgress {
+  processed: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Interface for bulk upsert options
+ */
+export interface BulkUpsertOptions {
+  strategy?: 'auto' | 'bulk' | 'individual'; // How users are sent, see bulkUpsertUsers (default: auto)
+  concurrency?: number; // Maximum number of requests in flight (default: 5)
+  batchSize?: number; // Users per batch request (default: 100)
+  stopOnError?: boolean; // Skip remaining users after the first failure (default: false)
+  onProgress?: (progress: BulkProgress) => void; // Called after each user is processed
+  signal?: AbortSignal; // Cancels outstanding requests and skips remaining users
+}
+
+/**
+ * Interface for the outcome of one user in bulkUpsertUsers
+ */
+export interface BulkUpsertItemResult {
+  index: number; // Position of the user in the input array
+  userId: string;
+  status: 'created' | 'updated' | 'failed' | 'skipped';
+  user?: CMUser;
+  error?: Error;
+}
+
+/**
+ * Interface for bulk upsert result
+ */
+export interface BulkUpsertResult {
+  results: BulkUpsertItemResult[]; // One entry per input user, in input order
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Interface for bulk delete options
+ */
+export interface BulkDeleteOptions {
+  concurrency?: number; // Maximum number of requests in flight (default: 5)
+  stopOnError?: boolean; // Skip remaining users after the first failure (default: false)
+  onProgress?: (progress: BulkProgress) => void; // Called after each user is processed
+  signal?: AbortSignal; // Cancels outstanding requests and skips remaining users
+}
+
+/**
+ * Interface for bulk delete result
+ */
+export interface BulkDeleteResult {
+  deleted: string[]; // Users that were deleted
+  missing: string[]; // Users that did not exist (already deleted); counted as success
+  failed: Array<{ userId: string; error: ServerAPIError }>;
+  skipped: string[]; // Users not attempted because of stopOnError or cancellation
+}
+
+// Default number of users sent per bulk upsert request
+const DEFAULT_BULK_BATCH_SIZE = 100;
+
+// Default lifetime of the server token used for administrative calls
+export const DEFAULT_SERVER_TOKEN_EXPIRATION_SECONDS = 300;
+
+// A new server token is minted this long before the current one expires
+const SERVER_TOKEN_REFRESH_MARGIN_SECONDS = 30;
+
+/**
+ * Check whether a request failed because the server has no such endpoint
+ */
+function isMissingEndpointError(error: unknown): boolean {
+  return error instanceof ServerAPIError && (error.statusCode === 404 || error.statusCode === 405);
 }
 
 /**
@@ -33,10 +277,22 @@ export interface TokenResponse {
  */
 export class ContactsManagerClient {
   private apiKey: string;
-  private apiSecret: string;
+  private apiSecret: string | null;
+  private keyring: ApiKeyring | null;
+  private signingKey: ResolvedSigningKey | null;
   private orgId: string;
-  private webhookSecret: string | null = null;
+  private baseUrl: string;
+  private retry?: RetryOptions | false;
+  private timeoutMs?: number;
+  private webhookSecrets: string[] | null = null;
+  private webhookToleranceSeconds?: number;
+  private webhookEventStore: WebhookEventStore;
   private defaultExpirationSeconds = 86400; // 24 hours
+  private rotationStore: TokenRotationStore;
+  private revocationStore: RevocationStore;
+  private tokenCache: TokenCache | null;
+  private serverTokenExpirationSeconds: number | null;
+  private serverCredential: { serverApi: ServerAPI; refreshAt: number } | null = null;
 
   /**
    * Create a new ContactsManagerClient
@@ -45,23 +301,111 @@ export class ContactsManagerClient {
    */
   constructor(config: ContactsManagerConfig) {
     this.apiKey = config.apiKey;
-    this.apiSecret = config.apiSecret;
+    this.apiSecret = config.apiSecret || null;
+    this.keyring = config.keyring || null;
     this.orgId = config.orgId;
 
     // Validate configuration
-    if (!this.apiKey || !this.apiSecret || !this.orgId) {
-      throw new Error('Missing required configuration: apiKey, apiSecret, and orgId are required');
+    if (!this.apiKey || !(this.apiSecret || this.keyring) || !this.orgId) {
+      throw new Error('Missing required configuration: apiKey, apiSecret (or keyring), and orgId are required');
+    }
+    if (this.apiSecret && this.keyring) {
+      throw new Error('Specify only one of apiSecret or keyring');
+    }
+    if (this.keyring) {
+      validateKeyring(this.keyring);
+    }
+    this.signingKey = config.signingKey ? resolveSigningKey(config.signingKey) : null;
+
+    this.baseUrl = resolveBaseUrl({ baseUrl: config.baseUrl, environment: config.environment });
+
+    // Resolve once so invalid retry options fail fast
+    resolveRetryPolicy(config.retry);
+    this.retry = config.retry;
+
+    if (config.timeoutMs !== undefined && (typeof config.timeoutMs !== 'number' || config.timeoutMs < 0)) {
+      throw new Error('timeoutMs must be a non-negative number');
+    }
+    this.timeoutMs = config.timeoutMs;
+
+    this.revocationStore = config.revocationStore || new InMemoryRevocationStore();
+    this.rotationStore = config.rotationStore || new InMemoryTokenRotationStore();
+
+    const tokenCache = config.tokenCache;
+    this.tokenCache = tokenCache ? new TokenCache(tokenCache === true ? {} : tokenCache) : null;
+
+    if (config.webhookSecret !== undefined) {
+      this.setWebhookSecret(config.webhookSecret);
+    }
+    if (
+      config.webhookToleranceSeconds !== undefined
+      && (typeof config.webhookToleranceSeconds !== 'number' || !(config.webhookToleranceSeconds >= 0))
+    ) {
+      throw new Error('webhookToleranceSeconds must be a non-negative number');
+    }
+    this.webhookToleranceSeconds = config.webhookToleranceSeconds;
+    this.webhookEventStore = config.webhookEventStore || new InMemoryWebhookEventStore();
+
+    // Opt-in, so existing callers keep authenticating as the target user
+    if (!config.serverCredential) {
+      this.serverTokenExpirationSeconds = null;
+    } else {
+      const { expirationSeconds = DEFAULT_SERVER_TOKEN_EXPIRATION_SECONDS } =
+        config.serverCredential === true ? {} : config.serverCredential;
+      if (!Number.isInteger(expirationSeconds) || expirationSeconds <= SERVER_TOKEN_REFRESH_MARGIN_SECONDS) {
+        throw new Error(
+          `serverCredential.expirationSeconds must be an integer greater than ${SERVER_TOKEN_REFRESH_MARGIN_SECONDS}`
+        );
+      }
+      this.serverTokenExpirationSeconds = expirationSeconds;
+    }
+
+    // The server credential replaces per-user tokens, so a cache would never be used
+    if (this.tokenCache && this.serverTokenExpirationSeconds !== null) {
+      throw new Error('Specify only one of tokenCache or serverCredential; the server credential is already reused across calls');
     }
   }
 
+  /**
+   * Get the server base URL this client sends requests to
+   *
+   * @returns Normalized server base URL
+   */
+  public getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
   /**
    * Generate a JWT token for a user
    * 
+   * Tokens are signed with the signingKey when one is configured, otherwise with the
+   * apiSecret or keyring.
+   * 
    * @param params Token generation parameters
    * @returns Token response with the token and expiration date
    */
   public async generateToken(params: TokenParams): Promise<TokenResponse> {
-    const { userId, deviceInfo = {}, expirationSeconds = this.defaultExpirationSeconds } = params;
+    return this.issueToken(params, false);
+  }
+
+  /**
+   * Build and sign a user token
+   * 
+   * @param params Token generation parameters
+   * @param forServer Sign with the apiSecret or keyring for authenticating server calls,
+   *   even when a signingKey is configured
+   */
+  private issueToken(params: TokenParams, forServer: boolean): TokenResponse {
+    const {
+      userId,
+      deviceInfo = {},
+      expirationSeconds = this.defaultExpirationSeconds,
+      claims,
+      scopes,
+      audience,
+      issuer,
+      notBefore,
+    } = params;
 
     if (!userId) {
       throw new Error('userId is required');
@@ -69,44 +413,335 @@ export class ContactsManagerClient {
 
     const now = Math.floor(Date.now() / 1000);
     const expiresAt = now + expirationSeconds;
+    const jti = crypto.randomUUID();
 
-    const payload = {
+    if (claims !== undefined) {
+      if (!claims || typeof claims !== 'object' || Array.isArray(claims)) {
+        throw new Error('claims must be an object');
+      }
+      const reserved = Object.keys(claims).filter(key => RESERVED_CLAIMS.includes(key));
+      if (reserved.length > 0) {
+        throw new Error(`Custom claims may not override reserved claims: ${reserved.join(', ')}`);
+      }
+    }
+
+    if (scopes !== undefined
+      && (!Array.isArray(scopes) || scopes.some(scope => typeof scope !== 'string' || !/^\S+$/.test(scope)))) {
+      throw new Error('scopes must be an array of non-empty strings without whitespace');
+    }
+
+    let nbf: number | undefined;
+    if (notBefore !== undefined) {
+      nbf = notBefore instanceof Date ? Math.floor(notBefore.getTime() / 1000) : now + notBefore;
+      if (!Number.isFinite(nbf)) {
+        throw new Error('notBefore must be a valid date or number of seconds');
+      }
+      if (nbf >= expiresAt) {
+        throw new Error('notBefore must be earlier than the token expiration');
+      }
+    }
+
+    const payload: Record<string, any> = {
+      ...claims,
       user_id: userId,
       api_key: this.apiKey,
       org_id: this.orgId,
       device: deviceInfo,
-      jti: crypto.randomUUID(),
+      jti,
       iat: now,
       exp: expiresAt
     };
+    if (nbf !== undefined) payload.nbf = nbf;
+    if (audience !== undefined) payload.aud = audience;
+    if (issuer !== undefined) payload.iss = issuer;
+    if (scopes !== undefined) payload.scope = scopes.join(' ');
 
     try {
-      const token = jwt.sign(payload, this.apiSecret, { algorithm: 'HS256' });
+      const token = forServer ? this.signServerPayload(payload) : this.signPayload(payload);
       
       return {
         token,
-        expiresAt: new Date(expiresAt * 1000)
+        expiresAt: new Date(expiresAt * 1000),
+        jti,
+        ...(nbf !== undefined ? { notBefore: new Date(nbf * 1000) } : {}),
+        ...(audience !== undefined ? { audience } : {}),
+        ...(issuer !== undefined ? { issuer } : {}),
+        ...(scopes !== undefined ? { scopes } : {}),
+        ...(claims !== undefined ? { claims } : {}),
       };
     } catch (error) {
       throw new Error(`Failed to generate token: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Sign a payload with the private key if configured, otherwise with the secret or keyring
+   * 
+   * @param payload Token claims
+   * @returns JWT string
+   */
+  private signPayload(payload: Record<string, any>): string {
+    if (this.signingKey) {
+      return signAsymmetricToken(payload, this.signingKey);
+    }
+    return this.signServerPayload(payload);
+  }
+
+  /**
+   * Sign a payload with HS256 using the keyring or secret, as the server expects
+   * 
+   * @param payload Token claims
+   * @returns JWT string
+   */
+  private signServerPayload(payload: Record<string, any>): string {
+    if (this.keyring) {
+      const key = getActiveKey(this.keyring);
+      return jwt.sign(payload, key.secret, { algorithm: 'HS256', keyid: key.kid });
+    }
+    return jwt.sign(payload, this.apiSecret as string, { algorithm: 'HS256' });
+  }
+
+  /**
+   * Verify a token minted by generateToken
+   * 
+   * Checks the signature, expiry, issue time and that the token belongs to this
+   * client's organization and API key.
+   * 
+   * @param token JWT string
+   * @param options Optional clock tolerance and device requirement
+   * @returns Promise with the typed token claims
+   * @throws TokenVerificationError (or a subclass) describing why verification failed
+   */
+  public async verifyToken(token: string, options: VerifyTokenOptions = {}): Promise<VerifiedToken> {
+    if (!token || typeof token !== 'string') {
+      throw new MalformedTokenError('Token is required and must be a string');
+    }
+
+    const payload = this.verifySignature(token, options.clockTolerance, false);
+    const claims = checkTokenClaims(payload, { orgId: this.orgId, apiKey: this.apiKey }, options);
+    await this.assertNotRevoked(claims);
+    return claims;
+  }
+
+  /**
+   * Revoke a single token
+   * 
+   * Accepts either the token itself or its jti. When a token is given, the revocation
+   * expires together with the token; for a bare jti pass `expiresAt` if known.
+   * 
+   * @param jtiOrToken Token identifier or JWT string
+   * @param options Optional expiry of the revocation entry when only the jti is known (default: 30 days)
+   */
+  public async revokeToken(jtiOrToken: string, options: { expiresAt?: Date } = {}): Promise<void> {
+    if (!jtiOrToken || typeof jtiOrToken !== 'string') {
+      throw new Error('A token or jti is required and must be a string');
+    }
+
+    if (jtiOrToken.split('.').length === 3) {
+      const payload = this.verifySignature(jtiOrToken, undefined, true);
+      const claims = checkTokenClaims(payload, { orgId: this.orgId, apiKey: this.apiKey });
+      if (claims.expiresAt.getTime() > Date.now()) {
+        await this.revocationStore.revokeToken(claims.jti, claims.expiresAt);
+      }
+      this.tokenCache?.invalidateToken(claims.jti);
+      return;
+    }
+
+    const expiresAt = options.expiresAt || new Date(Date.now() + DEFAULT_REVOCATION_TTL_SECONDS * 1000);
+    await this.revocationStore.revokeToken(jtiOrToken, expiresAt);
+    this.tokenCache?.invalidateToken(jtiOrToken);
+  }
+
+  /**
+   * Revoke every token issued to a user so far
+   * 
+   * Tokens issued to the user before the current second are rejected by verifyToken. Token
+   * timestamps only have second precision, so tokens issued later in the same second, such
+   * as the one from a fresh login right after revoking, remain valid.
+   * 
+   * @param userId User identifier
+   * @param options Optional expiry of the revocation entry; set it to the latest expiry of the
+   *   user's tokens if they can live longer than 30 days
+   */
+  public async revokeAllForUser(userId: string, options: { expiresAt?: Date } = {}): Promise<void> {
+    if (!userId || typeof userId !== 'string') {
+      throw new Error('userId is required and must be a string');
+    }
+
+    const now = Date.now();
+    const expiresAt = options.expiresAt || new Date(now + DEFAULT_REVOCATION_TTL_SECONDS * 1000);
+    const revokedAt = new Date(Math.floor(now / 1000) * 1000);
+    await this.revocationStore.revokeUser(userId, revokedAt, expiresAt);
+    this.tokenCache?.invalidate(userId);
+  }
+
+  /**
+   * Exchange a token for a new one with the same user and device
+   * 
+   * The old token must verify, but may be refreshed up to `gracePeriodSeconds` after it
+   * expired. Each token can only be rotated once; refreshing it again throws a
+   * TokenReuseError, which usually means the token was leaked.
+   * 
+   * @param oldToken Token to rotate
+   * @param options Optional grace period, new lifetime and clock tolerance
+   * @returns Promise with the new token and the identifier of the rotated one
+   */
+  public async refreshToken(oldToken: string, options: RefreshTokenOptions = {}): Promise<RefreshTokenResponse> {
+    const { gracePeriodSeconds = 0, clockTolerance = 0 } = options;
+
+    if (
+      typeof gracePeriodSeconds !== 'number'
+      || gracePeriodSeconds < 0
+      || gracePeriodSeconds > MAX_REFRESH_GRACE_SECONDS
+    ) {
+      throw new Error(`gracePeriodSeconds must be between 0 and ${MAX_REFRESH_GRACE_SECONDS}`);
+    }
+    if (!oldToken || typeof oldToken !== 'string') {
+      throw new MalformedTokenError('Token is required and must be a string');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const payload = this.verifySignature(oldToken, clockTolerance, true);
+    const claims = checkTokenClaims(payload, { orgId: this.orgId, apiKey: this.apiKey }, { clockTolerance }, now);
+    if (claims.principal === 'server') {
+      throw new InvalidTokenClaimsError('Server tokens cannot be refreshed', 'principal');
+    }
+
+    if (payload.exp + gracePeriodSeconds + clockTolerance < now) {
+      throw new TokenExpiredError(
+        `Token expired at ${claims.expiresAt.toISOString()} and is past the refresh grace period`,
+        claims.expiresAt
+      );
+    }
+
+    await this.assertNotRevoked(claims);
+
+    const refreshed = await this.generateToken({
+      userId: claims.userId,
+      deviceInfo: claims.deviceInfo,
+      expirationSeconds: options.expirationSeconds ?? payload.exp - payload.iat,
+      claims: Object.keys(claims.claims).length > 0 ? claims.claims : undefined,
+      scopes: claims.scopes.length > 0 ? claims.scopes : undefined,
+      audience: claims.audience,
+      issuer: claims.issuer,
+    });
+
+    // Only hand out the new token if this call is the first to rotate the old one
+    const refreshableUntil = payload.exp + gracePeriodSeconds + clockTolerance;
+    const rotatedTo = await this.rotationStore.recordRotation(
+      claims.jti,
+      refreshed.jti,
+      new Date((refreshableUntil + 1) * 1000)
+    );
+    if (rotatedTo !== null) {
+      throw new TokenReuseError(`Token ${claims.jti} was already rotated to ${rotatedTo}`, claims.jti, rotatedTo);
+    }
+
+    return { ...refreshed, previousJti: claims.jti };
+  }
+
+  /**
+   * Verify a token's signature and return its payload
+   * 
+   * @param token JWT string
+   * @param clockTolerance Allowed clock skew in seconds
+   * @param ignoreExpiration Skip the exp check (used for refresh grace periods)
+   */
+  private verifySignature(token: string, clockTolerance: number | undefined, ignoreExpiration: boolean): TokenPayload {
+    if (this.signingKey) {
+      return verifyAsymmetricToken(token, this.signingKey, { clockTolerance, ignoreExpiration });
+    }
+
+    const secrets = this.keyring
+      ? getVerificationKeys(this.keyring, decodeToken(token).header.kid).map(key => key.secret)
+      : [this.apiSecret as string];
+
+    let payload: TokenPayload | undefined;
+    let lastError: TokenVerificationError | undefined;
+    for (const secret of secrets) {
+      try {
+        payload = jwt.verify(token, secret, {
+          algorithms: ['HS256'],
+          clockTolerance,
+          ignoreExpiration,
+        }) as TokenPayload;
+        break;
+      } catch (error) {
+        lastError = toTokenVerificationError(error);
+        // Only a signature mismatch means another key may still match
+        if (!(lastError instanceof InvalidTokenSignatureError)) {
+          throw lastError;
+        }
+      }
+    }
+    if (payload === undefined) {
+      throw lastError;
+    }
+
+    if (!payload || typeof payload !== 'object') {
+      throw new MalformedTokenError('Token payload must be a JSON object');
+    }
+    return payload;
+  }
+
+  /**
+   * Reject tokens revoked individually or through their user
+   */
+  private async assertNotRevoked(claims: VerifiedToken): Promise<void> {
+    if (await this.revocationStore.isTokenRevoked(claims.jti)) {
+      throw new TokenRevokedError('Token has been revoked', claims.jti);
+    }
+
+    const userRevokedAt = await this.revocationStore.getUserRevokedAt(claims.userId);
+    if (userRevokedAt && claims.payload.iat < Math.floor(userRevokedAt.getTime() / 1000)) {
+      throw new TokenRevokedError('All tokens for this user have been revoked', claims.jti);
+    }
+  }
+
+  /**
+   * Decode a token without verifying it
+   * 
+   * Intended for debugging only; never trust the result for authorization.
+   * 
+   * @param token JWT string
+   * @returns Decoded header and payload
+   */
+  public decodeToken(token: string): DecodedToken {
+    return decodeToken(token);
+  }
+
+  /**
+   * Get the public JWKS document for the configured signing key
+   *
+   * Serve it to services that verify tokens without being able to mint them.
+   *
+   * @returns JWKS document with the public key
+   */
+  public getPublicJwks(): JsonWebKeySet {
+    if (!this.signingKey) {
+      throw new Error('A public JWKS is only available when the client is configured with a signingKey');
+    }
+    return exportPublicJwks(this.signingKey);
+  }
+
   /**
    * Create or update a user on the server and return a token with user information
    * 
-   * This method first generates a token for authentication, then calls the server API
+   * This method authenticates as the user, or with the server credential when it is
+   * enabled, then calls the server API
    * to create or update the user.
    * 
    * @param userInfo User information (required)
    * @param deviceInfo Optional device information
    * @param expirySeconds Token validity in seconds (default: 24 hours)
+   * @param options Optional per-call options such as an AbortSignal
    * @returns Promise with response data containing token and user information
    */
   public async createUser(
     userInfo: UserInfo,
     deviceInfo?: DeviceInfo,
-    expirySeconds: number = 86400
+    expirySeconds: number = 86400,
+    options: RequestOptions = {}
   ): Promise<CreateUserResponse> {
     if (!userInfo || typeof userInfo !== 'object') {
       throw new Error('userInfo is required and must be a UserInfo object');
@@ -115,122 +750,786 @@ export class ContactsManagerClient {
     // Extract uid from userInfo
     const uid = userInfo.userId;
 
-    // Generate a token for authentication
-    const tokenData = await this.generateToken({
-      userId: uid,
-      deviceInfo,
-      expirationSeconds: expirySeconds,
+    // Create server API client for the administrative call
+    const serverApi = await this.createAdminServerAPI(uid, deviceInfo, expirySeconds);
+
+    // Call the server API to create/update the user
+    return serverApi.createUser(uid, userInfo, deviceInfo, expirySeconds, options);
+  }
+
+  /**
+   * Fetch a single user from the server
+   * 
+   * This method authenticates as the user, or with the server credential when it is
+   * enabled, then calls the server API
+   * to read the user.
+   * 
+   * @param uid Unique user identifier
+   * @param options Optional per-call options such as an AbortSignal
+   * @returns Promise with the user, or null if the user does not exist
+   */
+  public async getUser(uid: string, options: RequestOptions = {}): Promise<CMUser | null> {
+    if (!uid || typeof uid !== 'string') {
+      throw new Error('User ID is required and must be a string');
+    }
+
+    // Create server API client for the administrative call
+    const serverApi = await this.createAdminServerAPI(uid);
+
+    try {
+      const response = await serverApi.getUser(uid, options);
+      return response.data.user;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Partially update a user on the server
+   * 
+   * Only the fields present in the patch are sent. Unlike createUser, no new
+   * client token is minted for the user.
+   * 
+   * @param uid Unique user identifier
+   * @param patch Fields to change; null clears a field
+   * @param options Optional per-call options such as an AbortSignal
+   * @returns Promise with the updated user
+   */
+  public async updateUser(uid: string, patch: UserPatch, options: RequestOptions = {}): Promise<CMUser> {
+    if (!uid || typeof uid !== 'string') {
+      throw new Error('User ID is required and must be a string');
+    }
+
+    // Create server API client for the administrative call
+    const serverApi = await this.createAdminServerAPI(uid);
+
+    const response = await serverApi.updateUser(uid, patch, options);
+    return response.data.user;
+  }
+
+  /**
+   * List users in the organization, one page at a time
+   * 
+   * Authenticates with the server credential, so the client must be created with
+   * `serverCredential` enabled.
+   * 
+   * @param params Optional pagination and filter parameters
+   * @param options Optional per-call options such as an AbortSignal
+   * @returns Promise with a page of users and the cursor for the next page
+   */
+  public async listUsers(params: ListUsersParams = {}, options: RequestOptions = {}): Promise<ListUsersPage> {
+    const serverApi = this.createOrgServerAPI('listUsers');
+
+    const response = await serverApi.listUsers(params, options);
+    const nextCursor = response.data.next_cursor || null;
+
+    return {
+      users: response.data.users,
+      nextCursor,
+      hasMore: nextCursor !== null,
+    };
+  }
+
+  /**
+   * Iterate over all users in the organization, fetching pages as needed
+   * 
+   * Every page is fetched with the same server credential; a new server token is only
+   * minted if the iteration outlives the current one.
+   * 
+   * @param params Optional page size and filter parameters
+   * @param options Optional per-call options such as an AbortSignal
+   * @returns Async iterator yielding every matching user
+   */
+  public async *iterateUsers(
+    params: Omit<ListUsersParams, 'cursor'> = {},
+    options: RequestOptions = {}
+  ): AsyncGenerator<CMUser, void, undefined> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.listUsers({ ...params, cursor }, options);
+      for (const user of page.users) {
+        yield user;
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Create or update many users, reporting a result per user instead of throwing
+   * 
+   * All users are validated up front, then sent according to `strategy`:
+   * - `auto` (default): in batches through the bulk endpoint when the server credential is
+   *   enabled, switching to one createUser per user if the server answers the first batch
+   *   with 404 or 405; without the server credential, one createUser per user
+   * - `bulk`: always through the bulk endpoint, which requires the server credential
+   * - `individual`: one createUser per user, with bounded concurrency
+   * 
+   * @param users User information for each user
+   * @param options Optional concurrency, batching, error and progress options
+   * @returns Promise with a result per user and summary counts
+   */
+  public async bulkUpsertUsers(users: UserInfo[], options: BulkUpsertOptions = {}): Promise<BulkUpsertResult> {
+    if (!Array.isArray(users)) {
+      throw new Error('users must be an array of UserInfo objects');
+    }
+
+    const { strategy = 'auto' } = options;
+    if (strategy !== 'auto' && strategy !== 'bulk' && strategy !== 'individual') {
+      throw new Error("strategy must be 'auto', 'bulk' or 'individual'");
+    }
+    const concurrency = resolveConcurrency(options.concurrency);
+    const batchSize = options.batchSize ?? DEFAULT_BULK_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error('batchSize must be a positive integer');
+    }
+    // Fail before validating users, as no call could succeed
+    let serverApi: ServerAPI | null = null;
+    if (strategy === 'bulk' || (strategy === 'auto' && this.serverTokenExpirationSeconds !== null)) {
+      serverApi = this.createOrgServerAPI('bulkUpsertUsers');
+    }
+
+    const { stopOnError = false, onProgress, signal } = options;
+    const total = users.length;
+    const results: BulkUpsertItemResult[] = new Array(total);
+    let succeeded = 0;
+    let failed = 0;
+
+    const record = (result: BulkUpsertItemResult): void => {
+      results[result.index] = result;
+      if (result.status === 'failed') {
+        failed++;
+      } else {
+        succeeded++;
+      }
+      onProgress?.({ processed: succeeded + failed, total, succeeded, failed });
+    };
+    const shouldStop = (): boolean => (stopOnError && failed > 0) || !!signal?.aborted;
+
+    // Validate everything before sending anything
+    const pending: Array<{ index: number; userInfo: UserInfo }> = [];
+    const seenUserIds = new Set<string>();
+    users.forEach((userInfo, index) => {
+      const userId = userInfo && typeof userInfo === 'object' ? userInfo.userId : '';
+      try {
+        if (!userInfo || typeof userInfo !== 'object') {
+          throw new Error('userInfo is required and must be a UserInfo object');
+        }
+        validateUserInfo(userInfo);
+        if (seenUserIds.has(userInfo.userId)) {
+          throw new Error(`Duplicate userId: ${userInfo.userId}`);
+        }
+        seenUserIds.add(userInfo.userId);
+        pending.push({ index, userInfo });
+      } catch (error) {
+        record({ index, userId, status: 'failed', error: error as Error });
+      }
     });
 
-    // Create server API client with the generated token
-    const serverApi = new ServerAPI(tokenData.token);
+    const upsertOne = async (item: { index: number; userInfo: UserInfo }): Promise<void> => {
+      try {
+        const response = await this.createUser(item.userInfo, undefined, undefined, { signal });
+        record({
+          index: item.index,
+          userId: item.userInfo.userId,
+          status: response.data.created ? 'created' : 'updated',
+          user: response.data.user,
+        });
+      } catch (error) {
+        record({ index: item.index, userId: item.userInfo.userId, status: 'failed', error: error as Error });
+      }
+    };
 
-    // Call the server API to create/update the user
-    return serverApi.createUser(uid, userInfo, deviceInfo, expirySeconds);
+    const recordBatch = (batch: Array<{ index: number; userInfo: UserInfo }>, response: BulkUpsertUsersResponse): void => {
+      const byUserId = new Map<string, BulkUpsertUserResult>();
+      for (const result of response.data.results || []) {
+        byUserId.set(result.user_id, result);
+      }
+
+      for (const item of batch) {
+        const result = byUserId.get(item.userInfo.userId);
+        if (result && result.status !== 'error') {
+          record({ index: item.index, userId: item.userInfo.userId, status: result.status, user: result.user });
+        } else {
+          const message = result?.error?.message || 'No result returned for user';
+          const error = new ServerAPIError(
+            `Failed to upsert user ${item.userInfo.userId}: ${message}`,
+            undefined,
+            result,
+            undefined,
+            { errorCode: result?.error?.code, serverMessage: result?.error?.message }
+          );
+          record({ index: item.index, userId: item.userInfo.userId, status: 'failed', error });
+        }
+      }
+    };
+
+    const failBatch = (batch: Array<{ index: number; userInfo: UserInfo }>, error: unknown): void => {
+      batch.forEach(item => {
+        record({ index: item.index, userId: item.userInfo.userId, status: 'failed', error: error as Error });
+      });
+    };
+
+    if (pending.length > 0 && !shouldStop()) {
+      let batches = serverApi ? chunk(pending, batchSize) : null;
+
+      // Probe with the first batch, as the server may not have the bulk endpoint
+      if (serverApi && batches && strategy === 'auto') {
+        const [first, ...rest] = batches;
+        try {
+          recordBatch(first, await serverApi.bulkUpsertUsers(first.map(item => item.userInfo), { signal }));
+          batches = rest;
+        } catch (error) {
+          if (isMissingEndpointError(error)) {
+            batches = null;
+          } else {
+            failBatch(first, error);
+            batches = rest;
+          }
+        }
+      }
+
+      if (serverApi && batches) {
+        const bulkApi = serverApi;
+        await forEachWithConcurrency(batches, concurrency, async batch => {
+          try {
+            recordBatch(batch, await bulkApi.bulkUpsertUsers(batch.map(item => item.userInfo), { signal }));
+          } catch (error) {
+            failBatch(batch, error);
+          }
+        }, shouldStop);
+      } else if (!shouldStop()) {
+        await forEachWithConcurrency(pending, concurrency, upsertOne, shouldStop);
+      }
+    }
+
+    // Anything not processed was skipped because of stopOnError or cancellation
+    for (let index = 0; index < total; index++) {
+      if (!results[index]) {
+        results[index] = { index, userId: users[index].userId, status: 'skipped' };
+      }
+    }
+
+    return { results, succeeded, failed, skipped: total - succeeded - failed };
+  }
+
+  /**
+   * Delete many users, treating users that no longer exist as already deleted
+   * 
+   * @param uids Unique user identifiers; duplicates are only deleted once
+   * @param options Optional concurrency, error and progress options
+   * @returns Promise with the deleted, missing, failed and skipped user IDs
+   */
+  public async bulkDeleteUsers(uids: string[], options: BulkDeleteOptions = {}): Promise<BulkDeleteResult> {
+    if (!Array.isArray(uids)) {
+      throw new Error('uids must be an array of strings');
+    }
+    if (uids.some(uid => !uid || typeof uid !== 'string')) {
+      throw new Error('Every user ID must be a non-empty string');
+    }
+
+    const concurrency = resolveConcurrency(options.concurrency);
+    const { stopOnError = false, onProgress, signal } = options;
+    const uniqueUids = Array.from(new Set(uids));
+    const total = uniqueUids.length;
+    const result: BulkDeleteResult = { deleted: [], missing: [], failed: [], skipped: [] };
+    const processed = new Set<string>();
+
+    const reportProgress = (): void => {
+      const succeeded = result.deleted.length + result.missing.length;
+      onProgress?.({ processed: succeeded + result.failed.length, total, succeeded, failed: result.failed.length });
+    };
+
+    await forEachWithConcurrency(uniqueUids, concurrency, async uid => {
+      try {
+        await this.deleteUser(uid, { signal });
+        result.deleted.push(uid);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          result.missing.push(uid);
+        } else {
+          result.failed.push({
+            userId: uid,
+            error: error instanceof ServerAPIError ? error : new ServerAPIError(String(error)),
+          });
+        }
+      }
+      processed.add(uid);
+      reportProgress();
+    }, () => (stopOnError && result.failed.length > 0) || !!signal?.aborted);
+
+    result.skipped = uniqueUids.filter(uid => !processed.has(uid));
+    return result;
   }
 
   /**
    * Delete a user from the server
    * 
-   * This method first generates a token for authentication, then calls the server API
+   * This method authenticates as the user, or with the server credential when it is
+   * enabled, then calls the server API
    * to delete the user.
    * 
    * @param uid Unique user identifier
+   * @param options Optional per-call options such as an AbortSignal
    * @returns Promise with response data containing deletion confirmation
    */
-  public async deleteUser(uid: string): Promise<DeleteUserResponse> {
+  public async deleteUser(uid: string, options: RequestOptions = {}): Promise<DeleteUserResponse> {
     if (!uid || typeof uid !== 'string') {
       throw new Error('User ID is required and must be a string');
     }
 
-    // Generate a token for authentication
-    const tokenData = await this.generateToken({ userId: uid });
-
-    // Create server API client with the generated token
-    const serverApi = new ServerAPI(tokenData.token);
+    // Create server API client for the administrative call
+    const serverApi = await this.createAdminServerAPI(uid);
 
     // Call the server API to delete the user
-    return serverApi.deleteUser(uid);
+    const response = await serverApi.deleteUser(uid, options);
+    this.tokenCache?.invalidate(uid);
+    return response;
+  }
+
+  /**
+   * Create a server API client for an administrative call about one user
+   * 
+   * By default the call authenticates as the target user. With the server credential
+   * enabled, it uses a short-lived token for the organization's backend that is reused
+   * across requests instead.
+   * 
+   * @param uid User the call is about
+   * @param deviceInfo Optional device information for the legacy per-user token
+   * @param expirationSeconds Optional lifetime of the legacy per-user token
+   */
+  private async createAdminServerAPI(
+    uid: string,
+    deviceInfo?: DeviceInfo,
+    expirationSeconds?: number
+  ): Promise<ServerAPI> {
+    if (this.serverTokenExpirationSeconds === null) {
+      return this.createUserServerAPI(uid, deviceInfo, expirationSeconds);
+    }
+    return this.getServerCredentialAPI(this.serverTokenExpirationSeconds);
+  }
+
+  /**
+   * Create a server API client for a call about the whole organization
+   * 
+   * These calls are not tied to a user the client could authenticate as, so they
+   * require the server credential.
+   * 
+   * @param operation Name of the calling method, for the error message
+   */
+  private createOrgServerAPI(operation: string): ServerAPI {
+    if (this.serverTokenExpirationSeconds === null) {
+      throw new Error(`${operation} requires the server credential; create the client with serverCredential enabled`);
+    }
+    return this.getServerCredentialAPI(this.serverTokenExpirationSeconds);
+  }
+
+  /**
+   * Get the server API client authenticated with the server credential, minting a new
+   * server token when the current one is close to expiring
+   * 
+   * @param expirationSeconds Lifetime of a new server token
+   */
+  private getServerCredentialAPI(expirationSeconds: number): ServerAPI {
+    if (this.serverCredential && this.serverCredential.refreshAt > Date.now()) {
+      return this.serverCredential.serverApi;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = now + expirationSeconds;
+    let token: string;
+    try {
+      token = this.signServerPayload({
+        user_id: `server:${this.orgId}`,
+        api_key: this.apiKey,
+        org_id: this.orgId,
+        principal: 'server',
+        jti: crypto.randomUUID(),
+        iat: now,
+        exp: expiresAt,
+      });
+    } catch (error) {
+      throw new Error(`Failed to generate server token: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const serverApi = this.createServerAPI(token);
+    this.serverCredential = { serverApi, refreshAt: (expiresAt - SERVER_TOKEN_REFRESH_MARGIN_SECONDS) * 1000 };
+    return serverApi;
+  }
+
+  /**
+   * Create a server API client authenticated as a user
+   * 
+   * When the token cache is enabled, a cached client is reused until its token is
+   * within the refresh margin of expiring.
+   * 
+   * @param userId User the token is minted for
+   * @param deviceInfo Optional device information
+   * @param expirationSeconds Optional token lifetime
+   */
+  private async createUserServerAPI(
+    userId: string,
+    deviceInfo?: DeviceInfo,
+    expirationSeconds?: number
+  ): Promise<ServerAPI> {
+    const cached = this.tokenCache?.get(userId, deviceInfo);
+    if (cached) {
+      return cached.serverApi;
+    }
+
+    const tokenData = this.issueToken({ userId, deviceInfo, expirationSeconds }, true);
+    const serverApi = this.createServerAPI(tokenData.token);
+    this.tokenCache?.set(deviceInfo, { userId, jti: tokenData.jti, expiresAt: tokenData.expiresAt, serverApi });
+    return serverApi;
+  }
+
+  /**
+   * Drop cached tokens so the next server call mints a new one
+   * 
+   * @param userId Only drop tokens of this user (default: all tokens, including the server credential)
+   */
+  public invalidateTokenCache(userId?: string): void {
+    this.tokenCache?.invalidate(userId);
+    if (userId === undefined) {
+      this.serverCredential = null;
+    }
+  }
+
+  /**
+   * Create a server API client that shares this client's connection settings
+   * 
+   * @param token JWT token for authentication
+   */
+  private createServerAPI(token: string): ServerAPI {
+    return new ServerAPI(token, {
+      baseUrl: this.baseUrl,
+      retry: this.retry,
+      timeoutMs: this.timeoutMs,
+    });
   }
 
   /**
    * Set the webhook secret for verifying webhook signatures
    * 
-   * @param secret The webhook secret from your dashboard
+   * While rotating the secret, pass both the new and the old one; a webhook is accepted
+   * if it was signed with either.
+   * 
+   * @param secret The webhook secret from your dashboard, or several secrets
    */
-  public setWebhookSecret(secret: string): void {
-    if (!secret || typeof secret !== 'string') {
+  public setWebhookSecret(secret: string | string[]): void {
+    const secrets = Array.isArray(secret) ? secret : [secret];
+    if (secrets.length === 0 || secrets.some(value => !value || typeof value !== 'string')) {
       throw new Error('Webhook secret is required and must be a string');
     }
-    this.webhookSecret = secret;
+    this.webhookSecrets = secrets;
   }
 
   /**
    * Verify the signature of a webhook request
    * 
-   * @param payload The request body (object or string)
+   * Pass the raw request body: objects are re-serialized with JSON.stringify, which only
+   * matches the signature if the body was not reformatted.
+   * 
+   * @param payload The raw request body (string or Buffer), or the parsed object
    * @param signature The X-Webhook-Signature header value
+   * @param options Optional tolerance and clock overrides
    * @returns boolean indicating if signature is valid
    */
-  public verifyWebhookSignature(payload: any, signature: string): boolean {
-    if (!this.webhookSecret) {
-      throw new Error('Webhook secret not set. Call setWebhookSecret() first.');
-    }
+  public verifyWebhookSignature(payload: any, signature: string, options: WebhookVerifyOptions = {}): boolean {
+    const secrets = this.getWebhookSecrets();
+    const rawBody = typeof payload === 'string' || Buffer.isBuffer(payload) ? payload : JSON.stringify(payload);
 
     try {
-      // Parse the signature header
-      const components: Record<string, string> = {};
-      signature.split(',').forEach(part => {
-        const [key, value] = part.split('=');
-        components[key] = value;
-      });
-      
-      if (!components.t || !components.v1) {
-        return false;
-      }
-      
-      const timestamp = components.t;
-      const providedSignature = components.v1;
-      
-      // Check if timestamp is not too old (15 minute window)
-      const currentTime = Math.floor(Date.now() / 1000);
-      if (currentTime - parseInt(timestamp) > 900) {
-        return false;
-      }
-      
-      // Convert payload to string if it's an object
-      const payloadString = typeof payload === 'string' 
-        ? payload 
-        : JSON.stringify(payload);
-      
-      // Create the signature
-      const signedPayload = `${timestamp}.${payloadString}`;
-      const expectedSignature = crypto
-        .createHmac('sha256', this.webhookSecret)
-        .update(signedPayload)
-        .digest('hex');
-      
-      // Compare signatures using constant-time comparison
-      return crypto.timingSafeEqual(
-        Buffer.from(providedSignature),
-        Buffer.from(expectedSignature)
-      );
+      verifyWebhookPayload(rawBody, signature, secrets, this.webhookVerifyOptions(options));
+      return true;
     } catch (error) {
-      console.error('Error verifying webhook signature:', error);
       return false;
     }
   }
+
+  /**
+   * Verify a webhook request and parse it into a typed event
+   * 
+   * @param rawBody The raw request body, exactly as received
+   * @param signatureHeader The X-Webhook-Signature header value
+   * @param options Optional tolerance and clock overrides
+   * @returns The webhook event
+   * @throws WebhookSignatureError if the signature or body is invalid
+   */
+  public constructWebhookEvent(
+    rawBody: string | Buffer,
+    signatureHeader: string | undefined,
+    options: WebhookVerifyOptions = {}
+  ): WebhookEvent {
+    return this.verifyWebhookRequest(rawBody, signatureHeader, this.webhookVerifyOptions(options)).event;
+  }
+
+  /**
+   * Verify a webhook request, parse it and reject replays of the same delivery
+   * 
+   * Each delivery is recorded in the webhook event store until its timestamp leaves the
+   * tolerance window; a request seen before is rejected with reason `replayed`. The delivery
+   * stays recorded even if processing it fails, so use receiveWebhookDelivery when a failed
+   * delivery must be accepted again on retry, and idempotentWebhookHandler to process each
+   * event once.
+   * 
+   * @param rawBody The raw request body, exactly as received
+   * @param signatureHeader The X-Webhook-Signature header value
+   * @param options Optional tolerance and clock overrides
+   * @returns Promise with the webhook event
+   * @throws WebhookSignatureError if the signature or body is invalid, or the request is a replay
+   */
+  public async receiveWebhookEvent(
+    rawBody: string | Buffer,
+    signatureHeader: string | undefined,
+    options: WebhookVerifyOptions = {}
+  ): Promise<WebhookEvent> {
+    return (await this.receiveWebhookDelivery(rawBody, signatureHeader, options)).event;
+  }
+
+  /**
+   * Verify a webhook request like receiveWebhookEvent and return the claimed delivery
+   * 
+   * Pass the delivery key to releaseWebhookDelivery when processing fails, so that a retry
+   * of the same request is accepted instead of rejected as a replay.
+   * 
+   * @param rawBody The raw request body, exactly as received
+   * @param signatureHeader The X-Webhook-Signature header value
+   * @param options Optional tolerance and clock overrides
+   * @returns Promise with the webhook event and the delivery key
+   * @throws WebhookSignatureError if the signature or body is invalid, or the request is a replay
+   */
+  public async receiveWebhookDelivery(
+    rawBody: string | Buffer,
+    signatureHeader: string | undefined,
+    options: WebhookVerifyOptions = {}
+  ): Promise<WebhookDelivery> {
+    const verifyOptions = this.webhookVerifyOptions(options);
+    const { event, timestamp } = this.verifyWebhookRequest(rawBody, signatureHeader, verifyOptions);
+
+    // Past this point the delivery fails the timestamp check anyway
+    const toleranceSeconds = verifyOptions.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+    const expiresAt = new Date((timestamp + toleranceSeconds + 1) * 1000);
+
+    const key = `delivery:${event.id}:${timestamp}`;
+    if (!(await this.webhookEventStore.add(key, expiresAt))) {
+      throw new WebhookSignatureError(`Webhook delivery of event ${event.id} was already received`, 'replayed');
+    }
+    return { event, key };
+  }
+
+  /**
+   * Forget a delivery claimed by receiveWebhookDelivery, so that it can be received again
+   * 
+   * @param key Delivery key returned by receiveWebhookDelivery
+   */
+  public async releaseWebhookDelivery(key: string): Promise<void> {
+    await this.webhookEventStore.delete(key);
+  }
+
+  /**
+   * Wrap a webhook event handler so that it runs once per event id
+   * 
+   * Processed event ids are recorded in the webhook event store. If the handler throws,
+   * the event is released so a redelivery can process it again.
+   * 
+   * @param handler Event handler
+   * @param options Optional retention of processed event ids
+   * @returns Wrapped handler reporting whether the event was a duplicate
+   */
+  public idempotentWebhookHandler<T>(
+    handler: (event: WebhookEvent) => T | Promise<T>,
+    options: IdempotentHandlerOptions = {}
+  ): (event: WebhookEvent) => Promise<IdempotentHandlerResult<T>> {
+    return createIdempotentHandler(this.webhookEventStore, handler, options);
+  }
+
+  /**
+   * Create a router that dispatches this client's verified webhook events by type
+   * 
+   * @param options Optional handler timeout
+   * @returns Webhook router whose receive() verifies requests with this client
+   */
+  public createWebhookRouter(options: Omit<WebhookRouterOptions, 'client'> = {}): WebhookRouter {
+    return new WebhookRouter({ ...options, client: this });
+  }
+
+  /**
+   * Create a webhook request signed with this client's webhook secret, for testing handlers
+   * 
+   * @param eventType Event type
+   * @param data Event data for that type
+   * @param options Optional event id, times and secret (default: the first configured secret)
+   * @returns Event, raw body and headers
+   */
+  public createTestWebhookRequest<T extends WebhookEventType>(
+    eventType: T,
+    data: WebhookEventOfType<T>['data'],
+    options: Partial<TestWebhookRequestOptions> = {}
+  ): TestWebhookRequest<WebhookEventOfType<T>> {
+    const secret = options.secret ?? this.getWebhookSecrets()[0];
+    return createTestWebhookRequest<T>(eventType, data, { ...options, secret });
+  }
+
+  /**
+   * Verify a raw webhook request and parse its event
+   */
+  private verifyWebhookRequest(
+    rawBody: string | Buffer,
+    signatureHeader: string | undefined,
+    options: WebhookVerifyOptions
+  ): { event: WebhookEvent; timestamp: number } {
+    const secrets = this.getWebhookSecrets();
+    if (typeof rawBody !== 'string' && !Buffer.isBuffer(rawBody)) {
+      throw new WebhookSignatureError(
+        'Webhook body must be the raw string or Buffer, not a parsed object',
+        'malformed_payload'
+      );
+    }
+
+    const { timestamp } = verifyWebhookPayload(rawBody, signatureHeader, secrets, options);
+    return { event: parseWebhookEvent(rawBody), timestamp };
+  }
+
+  /**
+   * Get the configured webhook secrets
+   */
+  private getWebhookSecrets(): string[] {
+    if (!this.webhookSecrets) {
+      throw new Error('Webhook secret not set. Call setWebhookSecret() first.');
+    }
+    return this.webhookSecrets;
+  }
+
+  /**
+   * Apply the client's webhook tolerance to per-call verification options
+   */
+  private webhookVerifyOptions(options: WebhookVerifyOptions): WebhookVerifyOptions {
+    return { ...options, toleranceSeconds: options.toleranceSeconds ?? this.webhookToleranceSeconds };
+  }
 }
 
 // Export types and classes
 export {
   ServerAPI,
   ServerAPIError,
+  AuthenticationError,
+  PermissionDeniedError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  RateLimitError,
+  InternalServerError,
+  NetworkError,
+  ServerAPITimeoutError,
+  ServerAPIAbortError,
+  InvalidResponseError,
+  FieldError,
+  ServerErrorDetails,
+  ServerAPIOptions,
+  RequestOptions,
+  RetryOptions,
+  DEFAULT_RETRY_OPTIONS,
+  ServerEnvironment,
+  SERVER_BASE_URL,
+  SERVER_ENVIRONMENTS,
   UserInfo,
   DeviceInfo,
   CreateUserResponse,
   DeleteUserResponse,
+  GetUserResponse,
+  UserPatch,
+  UpdateUserResponse,
+  ListUsersParams,
+  ListUsersResponse,
+  BulkUpsertUserResult,
+  BulkUpsertUsersResponse,
   CMUser,
+  validateUserInfo,
+  TokenPayload,
+  TokenHeader,
+  DecodedToken,
+  VerifiedToken,
+  VerifyTokenOptions,
+  TokenErrorReason,
+  TokenVerificationError,
+  MalformedTokenError,
+  InvalidTokenSignatureError,
+  TokenExpiredError,
+  WrongOrganizationError,
+  InvalidTokenClaimsError,
+  TokenNotYetValidError,
+  TokenReuseError,
+  TokenRevokedError,
+  RESERVED_CLAIMS,
+  RefreshTokenOptions,
+  decodeToken,
+  RevocationStore,
+  InMemoryRevocationStore,
+  TokenRotationStore,
+  InMemoryTokenRotationStore,
+  ApiKeyring,
+  ApiSecretKey,
+  AsymmetricAlgorithm,
+  AsymmetricSigningKey,
+  PublicJwk,
+  JsonWebKeySet,
+  exportPublicJwks,
+  TokenCacheOptions,
+  deviceFingerprint,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookEventOfType,
+  WebhookEventBase,
+  UserCreatedEvent,
+  UserUpdatedEvent,
+  UserDeletedEvent,
+  ContactMatchedEvent,
+  WebhookSignatureError,
+  WebhookSignatureErrorReason,
+  WebhookVerifyOptions,
+  WebhookSignatureHeader,
+  WebhookEventStore,
+  InMemoryWebhookEventStore,
+  IdempotentHandlerOptions,
+  IdempotentHandlerResult,
+  WebhookDelivery,
+  createIdempotentHandler,
+  WEBHOOK_SIGNATURE_HEADER,
+  SignWebhookOptions,
+  TestWebhookRequestOptions,
+  TestWebhookRequest,
+  signWebhookPayload,
+  createTestWebhookRequest,
+  WebhookMiddlewareOptions,
+  WebhookRequest,
+  DEFAULT_WEBHOOK_BODY_LIMIT_BYTES,
+  contactsManagerWebhook,
+  WebhookEventHandlers,
+  HandleWebhookRequestOptions,
+  handleWebhookRequest,
+  WebhookHandlerContext,
+  WebhookRouteHandler,
+  WebhookRouteOptions,
+  WebhookRouterOptions,
+  WebhookHandlerOutcome,
+  WebhookDispatchResult,
+  WebhookHandlerTimeoutError,
+  WebhookDispatchError,
+  WebhookRouter,
+  TokenEndpointHeaders,
+  TokenEndpointRequest,
+  TokenEndpointPayload,
+  TokenEndpointErrorBody,
+  TokenEndpointResponse,
+  TokenEndpointOptions,
+  TokenEndpoint,
+  deviceInfoFromHeaders,
+  createTokenEndpoint,
+  expressTokenEndpoint,
 };
 
 // Export default and named exports
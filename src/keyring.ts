@@ -0,0 +1,90 @@
+/**
+ * API secret keyring for rotating token signing secrets
+ */
+
+import { InvalidTokenSignatureError } from './token';
+
+/**
+ * Interface for a secret in the keyring
+ */
+export interface ApiSecretKey {
+  kid: string; // Key identifier stamped into the JWT header
+  secret: string;
+  retired?: boolean; // Retired keys no longer verify tokens (default: false)
+}
+
+/**
+ * Interface for a keyring of API secrets
+ */
+export interface ApiKeyring {
+  keys: ApiSecretKey[];
+  activeKid: string; // Key used to sign new tokens
+}
+
+/**
+ * Validate a keyring
+ *
+ * @param keyring Keyring to validate
+ */
+export function validateKeyring(keyring: ApiKeyring): void {
+  if (!keyring || !Array.isArray(keyring.keys) || keyring.keys.length === 0) {
+    throw new Error('keyring must contain at least one key');
+  }
+
+  const kids = new Set<string>();
+  for (const key of keyring.keys) {
+    if (!key || !key.kid || typeof key.kid !== 'string') {
+      throw new Error('Every keyring key must have a kid');
+    }
+    if (kids.has(key.kid)) {
+      throw new Error(`Duplicate keyring kid: ${key.kid}`);
+    }
+    if (!key.secret || typeof key.secret !== 'string') {
+      throw new Error(`Keyring key ${key.kid} is missing its secret`);
+    }
+    kids.add(key.kid);
+  }
+
+  const active = keyring.keys.find(key => key.kid === keyring.activeKid);
+  if (!active) {
+    throw new Error(`Active key ${keyring.activeKid} is not in the keyring`);
+  }
+  if (active.retired) {
+    throw new Error(`Active key ${keyring.activeKid} is retired`);
+  }
+}
+
+/**
+ * Get the key used to sign new tokens
+ *
+ * @param keyring Validated keyring
+ * @returns The active key
+ */
+export function getActiveKey(keyring: ApiKeyring): ApiSecretKey {
+  return keyring.keys.find(key => key.kid === keyring.activeKid) as ApiSecretKey;
+}
+
+/**
+ * Get the keys that may have signed a token
+ *
+ * Tokens without a `kid` header, such as those minted before the keyring was introduced,
+ * are checked against every non-retired key.
+ *
+ * @param keyring Validated keyring
+ * @param kid Key identifier from the token header
+ * @returns Candidate keys
+ */
+export function getVerificationKeys(keyring: ApiKeyring, kid: string | undefined): ApiSecretKey[] {
+  if (kid === undefined) {
+    return keyring.keys.filter(key => !key.retired);
+  }
+
+  const key = keyring.keys.find(candidate => candidate.kid === kid);
+  if (!key) {
+    throw new InvalidTokenSignatureError(`Token was signed with an unknown key: ${kid}`);
+  }
+  if (key.retired) {
+    throw new InvalidTokenSignatureError(`Token was signed with a retired key: ${kid}`);
+  }
+  return [key];
+}
@@ -0,0 +1,113 @@
+/**
+ * Retry policy for ContactsManager server requests
+ */
+
+/**
+ * Interface for retry options
+ */
+export interface RetryOptions {
+  maxAttempts?: number; // Total attempts including the first one (default: 3)
+  baseDelayMs?: number; // Delay before the first retry, doubled on each attempt (default: 250)
+  maxDelayMs?: number; // Upper bound for a single delay (default: 10000)
+  jitter?: boolean; // Randomize delays ("full jitter") to avoid thundering herds (default: true)
+  retryableStatusCodes?: number[]; // HTTP statuses worth retrying (default: 408, 429, 500, 502, 503, 504)
+  respectRetryAfter?: boolean; // Wait for the server's Retry-After header when present (default: true)
+}
+
+/**
+ * Fully resolved retry policy
+ */
+export type RetryPolicy = Required<RetryOptions>;
+
+// Default retry policy
+export const DEFAULT_RETRY_OPTIONS: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 10000,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+/**
+ * Resolve retry options into a complete policy
+ *
+ * @param options Retry options, or false to disable retries
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(options?: RetryOptions | false): RetryPolicy {
+  if (options === false) {
+    return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
+  }
+
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new Error('retry.maxAttempts must be a positive integer');
+  }
+  if (policy.baseDelayMs < 0 || policy.maxDelayMs < 0) {
+    throw new Error('retry delays must not be negative');
+  }
+
+  return policy;
+}
+
+/**
+ * Parse a Retry-After header value
+ *
+ * @param value Header value in delta-seconds or HTTP-date format
+ * @param now Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined if the value cannot be parsed
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Compute the backoff delay before the next attempt
+ *
+ * @param policy Retry policy
+ * @param attempt Number of the attempt that just failed (1-based)
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  return policy.jitter ? Math.floor(Math.random() * exponential) : exponential;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ *
+ * @param ms Delay in milliseconds
+ * @param signal Optional signal that ends the wait early
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Token revocation storage for ContactsManager SDK
+ */
+
+// How long a revocation is kept when the token's expiry is unknown (30 days)
+export const DEFAULT_REVOCATION_TTL_SECONDS = 30 * 86400;
+
+/**
+ * Storage backend for revoked tokens
+ *
+ * Lookups must see a revocation until its `expiresAt` has passed. With Redis, store keys with
+ * `PEXPIREAT`; with SQL, filter on the expiry column and purge periodically. Revoking the same
+ * token or user again overwrites the previous entry; for users the latest `revokedAt` wins.
+ */
+export interface RevocationStore {
+  /**
+   * Mark a token as revoked until it expires
+   *
+   * @param jti Token identifier
+   * @param expiresAt When the token expires and the entry may be dropped
+   */
+  revokeToken(jti: string, expiresAt: Date): Promise<void>;
+
+  /**
+   * Check whether a token has been revoked
+   *
+   * @param jti Token identifier
+   */
+  isTokenRevoked(jti: string): Promise<boolean>;
+
+  /**
+   * Revoke every token issued to a user before `revokedAt`
+   *
+   * @param userId User identifier
+   * @param revokedAt Tokens issued before this time are revoked; always a whole second
+   * @param expiresAt When all affected tokens have expired and the entry may be dropped
+   */
+  revokeUser(userId: string, revokedAt: Date, expiresAt: Date): Promise<void>;
+
+  /**
+   * Get the time before which a user's tokens are revoked
+   *
+   * @param userId User identifier
+   * @returns The latest revocation time, or null if the user has none
+   */
+  getUserRevokedAt(userId: string): Promise<Date | null>;
+}
+
+/**
+ * In-memory revocation store, used by default
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+  private tokens = new Map<string, number>();
+  private users = new Map<string, { revokedAt: number; expiresAt: number }>();
+
+  async revokeToken(jti: string, expiresAt: Date): Promise<void> {
+    this.prune();
+    this.tokens.set(jti, expiresAt.getTime());
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    const expiresAt = this.tokens.get(jti);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    if (expiresAt <= Date.now()) {
+      this.tokens.delete(jti);
+      return false;
+    }
+    return true;
+  }
+
+  async revokeUser(userId: string, revokedAt: Date, expiresAt: Date): Promise<void> {
+    this.prune();
+    const existing = this.users.get(userId);
+    this.users.set(userId, {
+      revokedAt: Math.max(revokedAt.getTime(), existing?.revokedAt ?? 0),
+      expiresAt: Math.max(expiresAt.getTime(), existing?.expiresAt ?? 0),
+    });
+  }
+
+  async getUserRevokedAt(userId: string): Promise<Date | null> {
+    const entry = this.users.get(userId);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.users.delete(userId);
+      return null;
+    }
+    return new Date(entry.revokedAt);
+  }
+
+  /**
+   * Remove entries whose tokens have all expired
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [jti, expiresAt] of this.tokens) {
+      if (expiresAt <= now) {
+        this.tokens.delete(jti);
+      }
+    }
+    for (const [userId, entry] of this.users) {
+      if (entry.expiresAt <= now) {
+        this.users.delete(userId);
+      }
+    }
+  }
+}
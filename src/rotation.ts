@@ -0,0 +1,53 @@
+/**
+ * Token rotation storage for refresh token reuse detection
+ */
+
+/**
+ * Storage backend for rotated tokens
+ *
+ * `recordRotation` must be atomic: when called concurrently with the same jti, exactly one
+ * call records its rotation and returns null, and until `expiresAt` every other call returns
+ * the recorded `rotatedTo`. With Redis, use `SET rotated:<jti> <rotatedTo> NX PXAT <expiresAt>`
+ * and read the key back when it fails; with SQL, insert into a table keyed by jti and select
+ * the row on conflict.
+ */
+export interface TokenRotationStore {
+  /**
+   * Record that a token was rotated, unless it already was
+   *
+   * @param jti Identifier of the rotated token
+   * @param rotatedTo Identifier of the token that replaces it
+   * @param expiresAt When the rotated token can no longer be refreshed and the entry may be dropped
+   * @returns Null if the rotation was recorded, or the identifier the token was already rotated to
+   */
+  recordRotation(jti: string, rotatedTo: string, expiresAt: Date): Promise<string | null>;
+}
+
+/**
+ * In-memory rotation store, used by default
+ */
+export class InMemoryTokenRotationStore implements TokenRotationStore {
+  private rotations = new Map<string, { rotatedTo: string; expiresAt: number }>();
+
+  async recordRotation(jti: string, rotatedTo: string, expiresAt: Date): Promise<string | null> {
+    const existing = this.rotations.get(jti);
+    if (existing && existing.expiresAt > Date.now()) {
+      return existing.rotatedTo;
+    }
+    this.prune();
+    this.rotations.set(jti, { rotatedTo, expiresAt: expiresAt.getTime() });
+    return null;
+  }
+
+  /**
+   * Remove rotations of tokens that can no longer be refreshed
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [jti, rotation] of this.rotations) {
+      if (rotation.expiresAt <= now) {
+        this.rotations.delete(jti);
+      }
+    }
+  }
+}
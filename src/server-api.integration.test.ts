@@ -85,7 +85,8 @@ describeOrSkip('Integration tests - Server API', () => {
       client = new ContactsManagerClient({
         apiKey: testConfig.apiKey,
         apiSecret: testConfig.apiSecret,
-        orgId: testConfig.orgId
+        orgId: testConfig.orgId,
+        baseUrl: testConfig.serverUrl
       });
     }
   });
@@ -268,6 +269,42 @@ describeOrSkip('Integration tests - Server API', () => {
     });
   });
 
+  describe('getUser', () => {
+    it('should fetch a created user', async () => {
+      if (!testConfig) return;
+
+      const userId = generateUniqueId('test_user_get');
+      const userInfo: UserInfo = {
+        userId,
+        fullName: 'Test User Get',
+        email: generateUniqueEmail('get')
+      };
+
+      try {
+        await client.createUser(userInfo);
+
+        const user = await client.getUser(userId);
+
+        expect(user).not.toBeNull();
+        expect(user?.organization_user_id).toBe(userId);
+        expect(user?.email).toBe(userInfo.email);
+        expect(user?.full_name).toBe(userInfo.fullName);
+      } catch (error) {
+        if (error instanceof ServerAPIError) {
+          throw new Error(`Server API error: ${error.message} (Status: ${error.statusCode})`);
+        }
+        throw error;
+      }
+    });
+
+    it('should return null for a non-existent user', async () => {
+      if (!testConfig) return;
+
+      const user = await client.getUser(generateUniqueId('nonexistent_user'));
+      expect(user).toBeNull();
+    });
+  });
+
   describe('deleteUser', () => {
     it('should delete user successfully', async () => {
       if (!testConfig) return;
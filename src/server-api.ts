@@ -2,7 +2,15 @@
  * Server API implementation for ContactsManager SDK
  */
 
-import { getServerEndpoint } from './server-config';
+import { getServerEndpoint, SERVER_BASE_URL } from './server-config';
+import {
+  createServerAPIError,
+  InvalidResponseError,
+  NetworkError,
+  ServerAPIAbortError,
+  ServerAPITimeoutError,
+} from './errors';
+import { computeRetryDelay, parseRetryAfter, resolveRetryPolicy, RetryOptions, RetryPolicy, sleep } from './retry';
 
 /**
  * Interface for user information
@@ -71,10 +79,107 @@ export interface DeleteUserResponse {
   };
 }
 
+/**
+ * Interface for get user response
+ */
+export interface GetUserResponse {
+  status: string;
+  data: {
+    user: CMUser;
+  };
+}
+
+/**
+ * Interface for a partial user update
+ *
+ * Omitted fields are left untouched; optional fields set to null are cleared on the server.
+ */
+export interface UserPatch {
+  fullName?: string;
+  email?: string | null;
+  phone?: string | null;
+  avatarUrl?: string | null;
+  metadata?: Record<string, any> | null;
+  metadataMode?: 'merge' | 'replace'; // How metadata is applied (default: merge)
+}
+
+/**
+ * Interface for update user response
+ */
+export interface UpdateUserResponse {
+  status: string;
+  data: {
+    user: CMUser;
+  };
+}
+
+/**
+ * Interface for list users parameters
+ */
+export interface ListUsersParams {
+  limit?: number; // Maximum number of users per page
+  cursor?: string; // Cursor returned by the previous page
+  updatedSince?: Date | string; // Only return users updated at or after this time
+  isActive?: boolean; // Filter by active status
+}
+
+/**
+ * Interface for list users response
+ */
+export interface ListUsersResponse {
+  status: string;
+  data: {
+    users: CMUser[];
+    next_cursor: string | null;
+  };
+}
+
+/**
+ * Interface for the outcome of one user in a bulk upsert
+ */
+export interface BulkUpsertUserResult {
+  user_id: string;
+  status: 'created' | 'updated' | 'error';
+  user?: CMUser;
+  error?: {
+    code?: string;
+    message: string;
+  };
+}
+
+/**
+ * Interface for bulk upsert users response
+ */
+export interface BulkUpsertUsersResponse {
+  status: string;
+  data: {
+    results: BulkUpsertUserResult[];
+  };
+}
+
+/**
+ * Interface for ServerAPI options
+ */
+export interface ServerAPIOptions {
+  baseUrl?: string; // Server base URL (default: SERVER_BASE_URL)
+  retry?: RetryOptions | false; // Retry policy for transient failures, or false to disable retries
+  timeoutMs?: number; // Per-attempt request timeout in milliseconds, 0 disables it (default: 30000)
+}
+
+/**
+ * Interface for per-call request options
+ */
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the call, including any pending retries
+}
+
+// Default per-attempt request timeout
+export const DEFAULT_TIMEOUT_MS = 30000;
+
 /**
  * Validate UserInfo object
  */
-function validateUserInfo(userInfo: UserInfo): void {
+export function validateUserInfo(userInfo: UserInfo): void {
   // Validate userId
   if (!userInfo.userId || typeof userInfo.userId !== 'string' || !userInfo.userId.trim()) {
     throw new Error('userId is required and must be a non-empty string');
@@ -102,18 +207,79 @@ function validateUserInfo(userInfo: UserInfo): void {
 }
 
 /**
- * Custom error class for server API errors
+ * Validate a UserPatch object and build the fields to send
  */
-export class ServerAPIError extends Error {
-  public statusCode?: number;
-  public responseData?: any;
+function buildUserPatch(patch: UserPatch): Record<string, any> {
+  if (!patch || typeof patch !== 'object') {
+    throw new Error('patch is required and must be a UserPatch object');
+  }
+
+  const { metadataMode, ...fields } = patch;
+  const userInfo: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      userInfo[key] = value;
+    }
+  }
+
+  if (Object.keys(userInfo).length === 0) {
+    throw new Error('patch must contain at least one field to update');
+  }
 
-  constructor(message: string, statusCode?: number, responseData?: any) {
-    super(message);
-    this.name = 'ServerAPIError';
-    this.statusCode = statusCode;
-    this.responseData = responseData;
+  // Validate fullName if provided (it cannot be cleared)
+  if ('fullName' in userInfo && (typeof userInfo.fullName !== 'string' || !userInfo.fullName.trim())) {
+    throw new Error('fullName must be a non-empty string');
   }
+
+  // Validate clearable string fields
+  for (const key of ['email', 'phone', 'avatarUrl']) {
+    if (key in userInfo && userInfo[key] !== null && typeof userInfo[key] !== 'string') {
+      throw new Error(`${key} must be a string or null`);
+    }
+  }
+
+  // Validate metadata
+  if ('metadata' in userInfo && userInfo.metadata !== null
+    && (typeof userInfo.metadata !== 'object' || Array.isArray(userInfo.metadata))) {
+    throw new Error('metadata must be an object or null');
+  }
+
+  if (metadataMode !== undefined) {
+    if (metadataMode !== 'merge' && metadataMode !== 'replace') {
+      throw new Error("metadataMode must be 'merge' or 'replace'");
+    }
+    if (!('metadata' in userInfo)) {
+      throw new Error('metadataMode requires metadata');
+    }
+  }
+
+  const payload: Record<string, any> = { user_info: userInfo };
+  if ('metadata' in userInfo) {
+    payload.metadata_mode = metadataMode || 'merge';
+  }
+  return payload;
+}
+
+/**
+ * Description of a single server request
+ */
+interface RequestDescriptor {
+  method: string;
+  url: string;
+  body?: any;
+  idempotent: boolean; // Only idempotent requests are retried
+  failureMessage: string; // Prefix for HTTP error messages
+  networkMessage: string; // Prefix for network error messages
+  signal?: AbortSignal; // Caller-provided cancellation signal
+}
+
+/**
+ * Outcome of a single request attempt
+ */
+interface AttemptResult {
+  response: Response;
+  data: any;
 }
 
 /**
@@ -121,15 +287,22 @@ export class ServerAPIError extends Error {
  */
 export class ServerAPI {
   private token: string;
+  private baseUrl: string;
+  private retryPolicy: RetryPolicy;
+  private timeoutMs: number;
   private headers: Record<string, string>;
 
   /**
    * Initialize the server API client
    * 
    * @param token JWT token for authentication
+   * @param options Optional client options such as the server base URL, retry policy and timeout
    */
-  constructor(token: string) {
+  constructor(token: string, options: ServerAPIOptions = {}) {
     this.token = token;
+    this.baseUrl = options.baseUrl || SERVER_BASE_URL;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
     this.headers = {
       'Authorization': `Bearer ${token}`,
       'Content-Type': 'application/json',
@@ -143,18 +316,20 @@ export class ServerAPI {
    * @param userInfo User information (required)
    * @param deviceInfo Optional device information
    * @param expirySeconds Token validity in seconds (default: 24 hours)
+   * @param options Optional per-call options such as an AbortSignal
    * @returns Promise with response data containing token and user information
    */
   async createUser(
     uid: string,
     userInfo: UserInfo,
     deviceInfo?: DeviceInfo,
-    expirySeconds: number = 86400
+    expirySeconds: number = 86400,
+    options: RequestOptions = {}
   ): Promise<CreateUserResponse> {
     // Validate userInfo
     validateUserInfo(userInfo);
 
-    const url = getServerEndpoint('createUser', { uid });
+    const url = getServerEndpoint('createUser', { uid }, this.baseUrl);
     
     const payload: any = {
       expiry_seconds: expirySeconds,
@@ -165,73 +340,285 @@ export class ServerAPI {
       payload.device_info = deviceInfo;
     }
 
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: this.headers,
-        body: JSON.stringify(payload),
-      });
+    // Creation is an upsert keyed by uid, so repeating it is safe
+    return this.request<CreateUserResponse>({
+      method: 'POST',
+      url,
+      body: payload,
+      idempotent: true,
+      failureMessage: 'Failed to create user',
+      networkMessage: 'Network error while creating user',
+      signal: options.signal,
+    });
+  }
 
-      if (response.ok) {
-        return await response.json();
-      } else {
-        let errorData;
-        try {
-          errorData = await response.json();
-        } catch {
-          // Ignore JSON parsing errors
-        }
+  /**
+   * Create or update several users in a single request
+   * 
+   * @param users User information for each user (required)
+   * @param options Optional per-call options such as an AbortSignal
+   * @returns Promise with response data containing a result per user
+   */
+  async bulkUpsertUsers(users: UserInfo[], options: RequestOptions = {}): Promise<BulkUpsertUsersResponse> {
+    if (!Array.isArray(users) || users.length === 0) {
+      throw new Error('users must be a non-empty array');
+    }
+    users.forEach(validateUserInfo);
 
-        throw new ServerAPIError(
-          `Failed to create user: ${response.status}`,
-          response.status,
-          errorData
-        );
-      }
-    } catch (error) {
-      if (error instanceof ServerAPIError) {
-        throw error;
+    const url = getServerEndpoint('bulkUpsertUsers', {}, this.baseUrl);
+
+    // Every item is an upsert keyed by userId, so repeating the batch is safe
+    return this.request<BulkUpsertUsersResponse>({
+      method: 'POST',
+      url,
+      body: { users: users.map(userInfo => ({ user_info: userInfo })) },
+      idempotent: true,
+      failureMessage: 'Failed to bulk upsert users',
+      networkMessage: 'Network error while bulk upserting users',
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Partially update a user on the server
+   * 
+   * @param uid Unique user identifier
+   * @param patch Fields to change; null clears a field
+   * @param options Optional per-call options such as an AbortSignal
+   * @returns Promise with response data containing the updated user
+   */
+  async updateUser(uid: string, patch: UserPatch, options: RequestOptions = {}): Promise<UpdateUserResponse> {
+    const payload = buildUserPatch(patch);
+    const url = getServerEndpoint('updateUser', { uid }, this.baseUrl);
+
+    // Applying the same patch twice yields the same state
+    return this.request<UpdateUserResponse>({
+      method: 'PATCH',
+      url,
+      body: payload,
+      idempotent: true,
+      failureMessage: 'Failed to update user',
+      networkMessage: 'Network error while updating user',
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * List users in the organization, one page at a time
+   * 
+   * @param params Optional pagination and filter parameters
+   * @param options Optional per-call options such as an AbortSignal
+   * @returns Promise with response data containing a page of users and the next cursor
+   */
+  async listUsers(params: ListUsersParams = {}, options: RequestOptions = {}): Promise<ListUsersResponse> {
+    const { limit, cursor, updatedSince, isActive } = params;
+
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new Error('limit must be a positive integer');
+    }
+
+    let updatedSinceValue: string | undefined;
+    if (updatedSince !== undefined) {
+      const date = updatedSince instanceof Date ? updatedSince : new Date(updatedSince);
+      if (isNaN(date.getTime())) {
+        throw new Error('updatedSince must be a valid date');
       }
-      throw new ServerAPIError(`Network error while creating user: ${error}`);
+      updatedSinceValue = date.toISOString();
     }
+
+    const url = getServerEndpoint('listUsers', {}, this.baseUrl, {
+      limit,
+      cursor: cursor || undefined,
+      updated_since: updatedSinceValue,
+      is_active: isActive,
+    });
+
+    return this.request<ListUsersResponse>({
+      method: 'GET',
+      url,
+      idempotent: true,
+      failureMessage: 'Failed to list users',
+      networkMessage: 'Network error while listing users',
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Fetch a single user from the server
+   * 
+   * @param uid Unique user identifier
+   * @param options Optional per-call options such as an AbortSignal
+   * @returns Promise with response data containing the user
+   */
+  async getUser(uid: string, options: RequestOptions = {}): Promise<GetUserResponse> {
+    const url = getServerEndpoint('getUser', { uid }, this.baseUrl);
+
+    return this.request<GetUserResponse>({
+      method: 'GET',
+      url,
+      idempotent: true,
+      failureMessage: 'Failed to get user',
+      networkMessage: 'Network error while getting user',
+      signal: options.signal,
+    });
   }
 
   /**
    * Delete a user from the server
    * 
    * @param uid Unique user identifier
+   * @param options Optional per-call options such as an AbortSignal
    * @returns Promise with response data containing deletion confirmation
    */
-  async deleteUser(uid: string): Promise<DeleteUserResponse> {
-    const url = getServerEndpoint('deleteUser', { uid });
+  async deleteUser(uid: string, options: RequestOptions = {}): Promise<DeleteUserResponse> {
+    const url = getServerEndpoint('deleteUser', { uid }, this.baseUrl);
+
+    return this.request<DeleteUserResponse>({
+      method: 'DELETE',
+      url,
+      idempotent: true,
+      failureMessage: 'Failed to delete user',
+      networkMessage: 'Network error while deleting user',
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Send a request, retrying transient failures according to the retry policy
+   * 
+   * @param descriptor Request description
+   * @returns Promise with the parsed JSON response body
+   */
+  private async request<T>(descriptor: RequestDescriptor): Promise<T> {
+    const policy = this.retryPolicy;
+    const maxAttempts = descriptor.idempotent ? policy.maxAttempts : 1;
+    const { signal } = descriptor;
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        throw new ServerAPIAbortError(`${descriptor.networkMessage}: request aborted`, attempt - 1);
+      }
+
+      let result: AttemptResult;
+      try {
+        result = await this.attempt(descriptor);
+      } catch (error) {
+        if (error instanceof InvalidResponseError) {
+          // The request succeeded, so sending it again could apply it twice
+          error.attempts = attempt;
+          throw error;
+        }
+        if (signal?.aborted) {
+          throw new ServerAPIAbortError(`${descriptor.networkMessage}: request aborted`, attempt);
+        }
+        if (attempt < maxAttempts) {
+          await sleep(computeRetryDelay(policy, attempt), signal);
+          continue;
+        }
+        if (error instanceof ServerAPITimeoutError) {
+          throw new ServerAPITimeoutError(
+            `${descriptor.networkMessage}: timed out after ${this.timeoutMs}ms`,
+            this.timeoutMs,
+            attempt
+          );
+        }
+        throw new NetworkError(`${descriptor.networkMessage}: ${error}`, attempt);
+      }
+
+      const { response, data } = result;
+      if (response.ok) {
+        return data;
+      }
+
+      if (attempt < maxAttempts && policy.retryableStatusCodes.includes(response.status)) {
+        const delay = this.getRetryDelay(response, attempt);
+        if (delay !== undefined) {
+          await sleep(delay, signal);
+          continue;
+        }
+      }
+
+      throw createServerAPIError(descriptor.failureMessage, response.status, data, response.headers, attempt);
+    }
+  }
+
+  /**
+   * Perform a single request attempt, bounded by the request timeout
+   * 
+   * @param descriptor Request description
+   * @returns Promise with the response and its parsed JSON body (undefined for unparseable error bodies)
+   */
+  private async attempt(descriptor: RequestDescriptor): Promise<AttemptResult> {
+    const controller = new AbortController();
+    const { signal } = descriptor;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    let timedOut = false;
+    const timer = this.timeoutMs > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.timeoutMs)
+      : undefined;
 
     try {
-      const response = await fetch(url, {
-        method: 'DELETE',
+      const response = await fetch(descriptor.url, {
+        method: descriptor.method,
         headers: this.headers,
+        signal: controller.signal,
+        ...(descriptor.body !== undefined ? { body: JSON.stringify(descriptor.body) } : {}),
       });
 
       if (response.ok) {
-        return await response.json();
-      } else {
-        let errorData;
+        let data;
         try {
-          errorData = await response.json();
-        } catch {
-          // Ignore JSON parsing errors
+          data = await response.json();
+        } catch (error) {
+          if (error instanceof SyntaxError) {
+            throw new InvalidResponseError(
+              `${descriptor.failureMessage}: response body is not valid JSON (${error.message})`,
+              response.status
+            );
+          }
+          throw error;
         }
+        return { response, data };
+      }
 
-        throw new ServerAPIError(
-          `Failed to delete user: ${response.status}`,
-          response.status,
-          errorData
-        );
+      let errorData;
+      try {
+        errorData = await response.json();
+      } catch {
+        // Ignore JSON parsing errors
       }
+      return { response, data: errorData };
     } catch (error) {
-      if (error instanceof ServerAPIError) {
-        throw error;
+      if (timedOut) {
+        throw new ServerAPITimeoutError(`Request timed out after ${this.timeoutMs}ms`, this.timeoutMs);
       }
-      throw new ServerAPIError(`Network error while deleting user: ${error}`);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Determine how long to wait before retrying a failed response
+   * 
+   * @returns Delay in milliseconds, or undefined if the server asked to wait longer than allowed
+   */
+  private getRetryDelay(response: Response, attempt: number): number | undefined {
+    const policy = this.retryPolicy;
+
+    if (policy.respectRetryAfter) {
+      const retryAfter = parseRetryAfter(response.headers?.get('retry-after'));
+      if (retryAfter !== undefined) {
+        return retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+      }
+    }
+
+    return computeRetryDelay(policy, attempt);
+  }
+}
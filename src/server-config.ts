@@ -5,30 +5,116 @@
 // Server API base URL
 export const SERVER_BASE_URL = 'https://api.contactsmanager.io';
 
+// Named server environments
+export const SERVER_ENVIRONMENTS = {
+  production: SERVER_BASE_URL,
+  staging: 'https://api.staging.contactsmanager.io',
+  local: 'http://localhost:8000',
+} as const;
+
+/**
+ * Name of a predefined server environment
+ */
+export type ServerEnvironment = keyof typeof SERVER_ENVIRONMENTS;
+
 // Server API endpoints
 export const SERVER_ENDPOINTS = {
+  listUsers: '/api/v1/server/users',
+  bulkUpsertUsers: '/api/v1/server/bulk/users', // Outside /users/ so it cannot be taken for a user ID
   createUser: '/api/v1/server/users/{uid}',
+  getUser: '/api/v1/server/users/{uid}',
+  updateUser: '/api/v1/server/users/{uid}',
   deleteUser: '/api/v1/server/users/{uid}',
 } as const;
 
+/**
+ * Validate and normalize a server base URL
+ *
+ * @param baseUrl Base URL to normalize
+ * @returns Base URL without trailing slashes
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  if (!baseUrl || typeof baseUrl !== 'string') {
+    throw new Error('baseUrl must be a non-empty string');
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(baseUrl.trim());
+  } catch {
+    throw new Error(`Invalid baseUrl: ${baseUrl}`);
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error(`Invalid baseUrl protocol: ${parsed.protocol} (expected http or https)`);
+  }
+
+  if (parsed.search || parsed.hash) {
+    throw new Error('baseUrl must not contain a query string or fragment');
+  }
+
+  return `${parsed.origin}${parsed.pathname}`.replace(/\/+$/, '');
+}
+
+/**
+ * Resolve the server base URL from an explicit URL or a named environment
+ *
+ * @param options Explicit base URL or environment name (defaults to production)
+ * @returns Normalized base URL
+ */
+export function resolveBaseUrl(options: { baseUrl?: string; environment?: ServerEnvironment } = {}): string {
+  const { baseUrl, environment } = options;
+
+  if (baseUrl !== undefined && environment !== undefined) {
+    throw new Error('Specify either baseUrl or environment, not both');
+  }
+
+  if (baseUrl !== undefined) {
+    return normalizeBaseUrl(baseUrl);
+  }
+
+  if (environment !== undefined) {
+    if (!Object.prototype.hasOwnProperty.call(SERVER_ENVIRONMENTS, environment)) {
+      throw new Error(
+        `Unknown environment: ${environment} (expected one of ${Object.keys(SERVER_ENVIRONMENTS).join(', ')})`
+      );
+    }
+    return SERVER_ENVIRONMENTS[environment];
+  }
+
+  return SERVER_BASE_URL;
+}
+
 /**
  * Get the full server endpoint URL
- * 
+ *
  * @param endpointName Name of the endpoint from SERVER_ENDPOINTS
- * @param params URL parameters to format into the endpoint
+ * @param params URL parameters to format into the endpoint; values are URL-encoded
+ * @param baseUrl Server base URL (defaults to SERVER_BASE_URL)
+ * @param query Optional query parameters; undefined values are skipped
  * @returns Full URL for the endpoint
  */
 export function getServerEndpoint(
   endpointName: keyof typeof SERVER_ENDPOINTS,
-  params: Record<string, string>
+  params: Record<string, string>,
+  baseUrl: string = SERVER_BASE_URL,
+  query: Record<string, string | number | boolean | undefined> = {}
 ): string {
   const endpointPath: string = SERVER_ENDPOINTS[endpointName];
-  
-  // Replace URL parameters
+
+  // Replace URL parameters, encoded so that '/', '?' or '#' in a value stay inside its segment
   let formattedPath = endpointPath;
   for (const [key, value] of Object.entries(params)) {
-    formattedPath = formattedPath.replace(`{${key}}`, value);
+    formattedPath = formattedPath.replace(`{${key}}`, encodeURIComponent(value));
   }
-  
-  return `${SERVER_BASE_URL}${formattedPath}`;
-} 
\ No newline at end of file
+
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      searchParams.append(key, String(value));
+    }
+  }
+  const queryString = searchParams.toString();
+
+  return `${baseUrl.replace(/\/+$/, '')}${formattedPath}${queryString ? `?${queryString}` : ''}`;
+}
@@ -0,0 +1,253 @@
+/**
+ * Asymmetric token signing and public JWKS export for ContactsManager SDK
+ *
+ * jsonwebtoken does not support EdDSA, so asymmetric tokens are signed and verified
+ * with Node's crypto module directly.
+ */
+
+import crypto, { KeyObject } from 'crypto';
+import {
+  TokenPayload,
+  MalformedTokenError,
+  InvalidTokenSignatureError,
+  TokenExpiredError,
+  TokenNotYetValidError,
+  decodeToken,
+} from './token';
+
+/**
+ * Supported asymmetric signing algorithms
+ */
+export type AsymmetricAlgorithm = 'RS256' | 'ES256' | 'EdDSA';
+
+export const ASYMMETRIC_ALGORITHMS: readonly AsymmetricAlgorithm[] = ['RS256', 'ES256', 'EdDSA'];
+
+/**
+ * Interface for an asymmetric signing key
+ */
+export interface AsymmetricSigningKey {
+  algorithm: AsymmetricAlgorithm;
+  privateKey: string | KeyObject; // PEM string or private KeyObject
+  kid?: string; // Key identifier (default: RFC 7638 JWK thumbprint of the public key)
+}
+
+/**
+ * Interface for a public key in a JWKS document
+ */
+export interface PublicJwk {
+  kty: string;
+  kid: string;
+  alg: AsymmetricAlgorithm;
+  use: 'sig';
+  n?: string; // RSA modulus
+  e?: string; // RSA exponent
+  crv?: string; // Curve for EC and OKP keys
+  x?: string;
+  y?: string;
+}
+
+/**
+ * Interface for a JWKS document
+ */
+export interface JsonWebKeySet {
+  keys: PublicJwk[];
+}
+
+/**
+ * Signing key with its parsed private and public halves
+ */
+export interface ResolvedSigningKey {
+  algorithm: AsymmetricAlgorithm;
+  kid: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+// Members of each key type that make up the RFC 7638 thumbprint, in lexicographic order
+const THUMBPRINT_MEMBERS: Record<string, string[]> = {
+  RSA: ['e', 'kty', 'n'],
+  EC: ['crv', 'kty', 'x', 'y'],
+  OKP: ['crv', 'kty', 'x'],
+};
+
+/**
+ * Parse a signing key and check that it suits its algorithm
+ *
+ * @param key Signing key configuration
+ * @returns Resolved signing key
+ */
+export function resolveSigningKey(key: AsymmetricSigningKey): ResolvedSigningKey {
+  if (!key || !ASYMMETRIC_ALGORITHMS.includes(key.algorithm)) {
+    throw new Error(`signingKey.algorithm must be one of ${ASYMMETRIC_ALGORITHMS.join(', ')}`);
+  }
+
+  let privateKey: KeyObject;
+  if (key.privateKey instanceof KeyObject) {
+    privateKey = key.privateKey;
+  } else if (typeof key.privateKey === 'string' && key.privateKey) {
+    try {
+      privateKey = crypto.createPrivateKey(key.privateKey);
+    } catch (error) {
+      throw new Error(`signingKey.privateKey is not a valid private key: ${(error as Error).message}`);
+    }
+  } else {
+    throw new Error('signingKey.privateKey must be a PEM string or KeyObject');
+  }
+  if (privateKey.type !== 'private') {
+    throw new Error('signingKey.privateKey must be a private key');
+  }
+
+  assertKeyMatchesAlgorithm(privateKey, key.algorithm);
+
+  const publicKey = crypto.createPublicKey(privateKey);
+  if (key.kid !== undefined && (typeof key.kid !== 'string' || !key.kid)) {
+    throw new Error('signingKey.kid must be a non-empty string');
+  }
+
+  return {
+    algorithm: key.algorithm,
+    kid: key.kid ?? computeJwkThumbprint(publicKey),
+    privateKey,
+    publicKey,
+  };
+}
+
+/**
+ * Throw if a key cannot be used with an algorithm
+ */
+function assertKeyMatchesAlgorithm(key: KeyObject, algorithm: AsymmetricAlgorithm): void {
+  const type = key.asymmetricKeyType;
+  const details = key.asymmetricKeyDetails;
+
+  if (algorithm === 'RS256') {
+    if (type !== 'rsa') {
+      throw new Error('RS256 requires an RSA key');
+    }
+    if (details?.modulusLength !== undefined && details.modulusLength < 2048) {
+      throw new Error('RS256 requires an RSA key of at least 2048 bits');
+    }
+  } else if (algorithm === 'ES256') {
+    if (type !== 'ec' || (details?.namedCurve !== undefined && details.namedCurve !== 'prime256v1')) {
+      throw new Error('ES256 requires an EC key on the P-256 curve');
+    }
+  } else if (type !== 'ed25519' && type !== 'ed448') {
+    throw new Error('EdDSA requires an Ed25519 or Ed448 key');
+  }
+}
+
+/**
+ * Compute the RFC 7638 JWK thumbprint of a public key
+ */
+function computeJwkThumbprint(publicKey: KeyObject): string {
+  const jwk = publicKey.export({ format: 'jwk' }) as Record<string, string>;
+  const members = THUMBPRINT_MEMBERS[jwk.kty];
+  const canonical = JSON.stringify(Object.fromEntries(members.map(member => [member, jwk[member]])));
+  return crypto.createHash('sha256').update(canonical).digest('base64url');
+}
+
+/**
+ * Get the crypto.sign and crypto.verify parameters for an algorithm
+ */
+function signatureParams(algorithm: AsymmetricAlgorithm): { digest: string | null; dsaEncoding?: 'ieee-p1363' } {
+  if (algorithm === 'EdDSA') {
+    return { digest: null };
+  }
+  // JWS uses the raw r || s encoding for ECDSA signatures
+  return algorithm === 'ES256' ? { digest: 'sha256', dsaEncoding: 'ieee-p1363' } : { digest: 'sha256' };
+}
+
+/**
+ * Sign a payload as a compact JWS
+ *
+ * @param payload Token claims
+ * @param key Resolved signing key
+ * @returns JWT string
+ */
+export function signAsymmetricToken(payload: Record<string, any>, key: ResolvedSigningKey): string {
+  const header = { alg: key.algorithm, typ: 'JWT', kid: key.kid };
+  const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+  const { digest, dsaEncoding } = signatureParams(key.algorithm);
+  const signature = crypto.sign(digest, Buffer.from(signingInput), { key: key.privateKey, dsaEncoding });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Verify a token signed with an asymmetric key, including its exp and nbf claims
+ *
+ * @param token JWT string
+ * @param key Resolved signing key
+ * @param options Clock tolerance in seconds and whether to skip the exp check
+ * @param now Current time in seconds
+ * @returns Verified payload
+ */
+export function verifyAsymmetricToken(
+  token: string,
+  key: ResolvedSigningKey,
+  options: { clockTolerance?: number; ignoreExpiration?: boolean } = {},
+  now: number = Math.floor(Date.now() / 1000)
+): TokenPayload {
+  const { clockTolerance = 0, ignoreExpiration = false } = options;
+
+  const { header, payload } = decodeToken(token);
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new MalformedTokenError('Token is malformed: jwt malformed');
+  }
+  if (header.alg !== key.algorithm) {
+    throw new InvalidTokenSignatureError(`Token algorithm ${header.alg} does not match ${key.algorithm}`);
+  }
+  if (header.kid !== undefined && header.kid !== key.kid) {
+    throw new InvalidTokenSignatureError(`Token was signed with an unknown key: ${header.kid}`);
+  }
+
+  const { digest, dsaEncoding } = signatureParams(key.algorithm);
+  const valid = crypto.verify(
+    digest,
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    { key: key.publicKey, dsaEncoding },
+    Buffer.from(parts[2], 'base64url')
+  );
+  if (!valid) {
+    throw new InvalidTokenSignatureError('Token signature is invalid');
+  }
+
+  if (typeof payload.nbf === 'number' && payload.nbf > now + clockTolerance) {
+    const notBefore = new Date(payload.nbf * 1000);
+    throw new TokenNotYetValidError(`Token is not valid before ${notBefore.toISOString()}`, notBefore);
+  }
+  if (!ignoreExpiration && typeof payload.exp === 'number' && now >= payload.exp + clockTolerance) {
+    const expiredAt = new Date(payload.exp * 1000);
+    throw new TokenExpiredError(`Token expired at ${expiredAt.toISOString()}`, expiredAt);
+  }
+
+  return payload;
+}
+
+/**
+ * Export the public halves of signing keys as a JWKS document
+ *
+ * Serve the result (e.g. at /.well-known/jwks.json) so other services can verify tokens
+ * without being able to mint them.
+ *
+ * @param keys Signing keys, as configured or resolved
+ * @returns JWKS document
+ */
+export function exportPublicJwks(
+  keys: AsymmetricSigningKey | ResolvedSigningKey | Array<AsymmetricSigningKey | ResolvedSigningKey>
+): JsonWebKeySet {
+  const list = Array.isArray(keys) ? keys : [keys];
+  return {
+    keys: list.map(key => {
+      const resolved = 'publicKey' in key ? key : resolveSigningKey(key);
+      const jwk = resolved.publicKey.export({ format: 'jwk' }) as Omit<PublicJwk, 'kid' | 'alg' | 'use'>;
+      return { ...jwk, kid: resolved.kid, alg: resolved.algorithm, use: 'sig' as const };
+    }),
+  };
+}
+
+/**
+ * Encode a string as base64url
+ */
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
@@ -0,0 +1,153 @@
+/**
+ * LRU cache for the tokens the client mints to authenticate server calls
+ */
+
+import crypto from 'crypto';
+import { DeviceInfo, ServerAPI } from './server-api';
+
+/**
+ * Interface for token cache options
+ */
+export interface TokenCacheOptions {
+  maxEntries?: number; // Maximum number of cached tokens (default: 1000)
+  refreshMarginSeconds?: number; // Mint a new token this long before the cached one expires (default: 60)
+}
+
+/**
+ * Interface for a cached token and the server API client using it
+ */
+export interface TokenCacheEntry {
+  userId: string;
+  jti: string;
+  expiresAt: Date;
+  serverApi: ServerAPI;
+}
+
+export const DEFAULT_TOKEN_CACHE_MAX_ENTRIES = 1000;
+export const DEFAULT_TOKEN_CACHE_REFRESH_MARGIN_SECONDS = 60;
+
+/**
+ * Compute a stable fingerprint for device information
+ *
+ * Key order does not matter, so equivalent objects share a fingerprint.
+ *
+ * @param deviceInfo Device information
+ * @returns Hex-encoded SHA-256 fingerprint
+ */
+export function deviceFingerprint(deviceInfo: DeviceInfo = {}): string {
+  const canonical = JSON.stringify(
+    Object.keys(deviceInfo)
+      .filter(key => deviceInfo[key] !== undefined)
+      .sort()
+      .map(key => [key, deviceInfo[key]])
+  );
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Least-recently-used cache of tokens keyed by user and device fingerprint
+ */
+export class TokenCache {
+  private entries = new Map<string, TokenCacheEntry>();
+  private maxEntries: number;
+  private refreshMarginMs: number;
+
+  constructor(options: TokenCacheOptions = {}) {
+    const {
+      maxEntries = DEFAULT_TOKEN_CACHE_MAX_ENTRIES,
+      refreshMarginSeconds = DEFAULT_TOKEN_CACHE_REFRESH_MARGIN_SECONDS,
+    } = options;
+
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error('tokenCache.maxEntries must be a positive integer');
+    }
+    if (typeof refreshMarginSeconds !== 'number' || !(refreshMarginSeconds >= 0)) {
+      throw new Error('tokenCache.refreshMarginSeconds must be a non-negative number');
+    }
+
+    this.maxEntries = maxEntries;
+    this.refreshMarginMs = refreshMarginSeconds * 1000;
+  }
+
+  /**
+   * Number of cached tokens, including ones that are due for refresh
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get a cached token that is still outside the refresh margin
+   *
+   * @param userId User identifier
+   * @param deviceInfo Device information
+   * @returns The cached entry, or undefined if a new token must be minted
+   */
+  get(userId: string, deviceInfo?: DeviceInfo): TokenCacheEntry | undefined {
+    const key = this.key(userId, deviceInfo);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt.getTime() - this.refreshMarginMs <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Cache a token, evicting the least recently used entry when full
+   *
+   * @param deviceInfo Device information the token was minted for
+   * @param entry Token to cache
+   */
+  set(deviceInfo: DeviceInfo | undefined, entry: TokenCacheEntry): void {
+    const key = this.key(entry.userId, deviceInfo);
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop cached tokens
+   *
+   * @param userId Only drop tokens of this user (default: all tokens)
+   */
+  invalidate(userId?: string): void {
+    if (userId === undefined) {
+      this.entries.clear();
+      return;
+    }
+    for (const [key, entry] of this.entries) {
+      if (entry.userId === userId) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop the cached token with a given jti, e.g. after it was revoked
+   *
+   * @param jti Token identifier
+   */
+  invalidateToken(jti: string): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.jti === jti) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  private key(userId: string, deviceInfo?: DeviceInfo): string {
+    return `${userId}\u0000${deviceFingerprint(deviceInfo)}`;
+  }
+}
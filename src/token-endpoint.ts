@@ -0,0 +1,244 @@
+/**
+ * Drop-in login endpoint issuing ContactsManager tokens for authenticated users
+ */
+
+import { ServerResponse } from 'http';
+import type { ContactsManagerClient } from './index';
+import { DeviceInfo, UserInfo } from './server-api';
+import { HeadersLike, ServerAPIError, ValidationError, RateLimitError } from './errors';
+
+/**
+ * Request headers, as a Fetch API `Headers` object or a Node.js header record
+ */
+export type TokenEndpointHeaders = HeadersLike | Record<string, string | string[] | undefined>;
+
+/**
+ * Minimal request accepted by a token endpoint; framework requests are passed through as they are
+ */
+export interface TokenEndpointRequest {
+  headers: TokenEndpointHeaders;
+}
+
+/**
+ * Interface for the token payload returned to your app
+ */
+export interface TokenEndpointPayload {
+  contactsmanager_token: string;
+  expires_at: number; // Unix timestamp in seconds
+  user_created: boolean; // True if the user was created rather than updated
+}
+
+/**
+ * Interface for an error returned by a token endpoint
+ */
+export interface TokenEndpointErrorBody {
+  error: 'unauthenticated' | 'invalid_user' | 'rate_limited' | 'upstream_error' | 'internal_error';
+  message: string;
+}
+
+/**
+ * Interface for the response of a token endpoint
+ */
+export interface TokenEndpointResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: TokenEndpointPayload | TokenEndpointErrorBody;
+}
+
+/**
+ * Interface for token endpoint options
+ */
+export interface TokenEndpointOptions<R extends TokenEndpointRequest = TokenEndpointRequest> {
+  client: ContactsManagerClient;
+  resolveUser: (request: R) => UserInfo | null | undefined | Promise<UserInfo | null | undefined>; // null if not signed in
+  resolveDevice?: (request: R, derived: DeviceInfo) => DeviceInfo | Promise<DeviceInfo>; // Adjust the derived device
+  expirationSeconds?: number; // Token lifetime (default: 24 hours)
+  onError?: (error: unknown, request: R) => void; // Called for failures, e.g. for logging
+}
+
+/**
+ * Token endpoint handler
+ */
+export type TokenEndpoint<R extends TokenEndpointRequest = TokenEndpointRequest> = (
+  request: R
+) => Promise<TokenEndpointResponse>;
+
+/**
+ * Derive device information from request headers
+ *
+ * The operating system and device type are read from `User-Agent` and the locale from
+ * `Accept-Language`. Apps can send `X-Device-Type`, `X-App-Version` and `X-Timezone`
+ * to report them explicitly.
+ *
+ * @param headers Request headers
+ * @returns Device information; fields that cannot be derived are omitted
+ */
+export function deviceInfoFromHeaders(headers: TokenEndpointHeaders): DeviceInfo {
+  const userAgent = getHeader(headers, 'user-agent') || '';
+  const deviceInfo: DeviceInfo = {};
+
+  const os = detectOs(userAgent);
+  if (os) {
+    deviceInfo.os = os;
+  }
+  const deviceType = getHeader(headers, 'x-device-type')
+    || (userAgent ? (/Mobi|Android|iPhone|iPad/.test(userAgent) ? 'mobile' : 'web') : undefined);
+  if (deviceType) {
+    deviceInfo.deviceType = deviceType;
+  }
+  const appVersion = getHeader(headers, 'x-app-version');
+  if (appVersion) {
+    deviceInfo.appVersion = appVersion;
+  }
+  const locale = getHeader(headers, 'accept-language')?.split(',')[0].split(';')[0].trim();
+  if (locale && locale !== '*') {
+    deviceInfo.locale = locale;
+  }
+  const timezone = getHeader(headers, 'x-timezone');
+  if (timezone) {
+    deviceInfo.timezone = timezone;
+  }
+
+  return deviceInfo;
+}
+
+/**
+ * Create a login endpoint that upserts the signed-in user and returns a ContactsManager token
+ *
+ * `resolveUser` authenticates the request with your own session or auth logic. Responses:
+ * - 200 with the token payload
+ * - 401 when `resolveUser` returns null or undefined
+ * - 400 when ContactsManager rejects the user information
+ * - 429 when ContactsManager rate limits the request, with `Retry-After` when known
+ * - 502 when ContactsManager fails or cannot be reached
+ * - 500 for any other error, including errors thrown by your callbacks
+ *
+ * @param options Client, user and device resolvers, and token lifetime
+ * @returns Endpoint handler, usable with any framework or with expressTokenEndpoint
+ */
+export function createTokenEndpoint<R extends TokenEndpointRequest = TokenEndpointRequest>(
+  options: TokenEndpointOptions<R>
+): TokenEndpoint<R> {
+  const { client, resolveUser, resolveDevice, expirationSeconds = 86400, onError } = options;
+  if (!client) {
+    throw new Error('client is required');
+  }
+  if (typeof resolveUser !== 'function') {
+    throw new Error('resolveUser is required and must be a function');
+  }
+  if (resolveDevice !== undefined && typeof resolveDevice !== 'function') {
+    throw new Error('resolveDevice must be a function');
+  }
+
+  return async (request: R) => {
+    try {
+      const userInfo = await resolveUser(request);
+      if (!userInfo) {
+        return errorResponse(401, 'unauthenticated', 'Authentication required');
+      }
+
+      const derived = deviceInfoFromHeaders(request.headers);
+      const deviceInfo = resolveDevice ? await resolveDevice(request, derived) : derived;
+
+      const response = await client.createUser(userInfo, deviceInfo, expirationSeconds);
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+        body: {
+          contactsmanager_token: response.data.token.token,
+          expires_at: response.data.token.expires_at,
+          user_created: response.data.created,
+        },
+      };
+    } catch (error) {
+      onError?.(error, request);
+      return mapError(error);
+    }
+  };
+}
+
+/**
+ * Adapt a token endpoint to an Express/Connect route handler
+ *
+ * The Express request is passed to your callbacks, so `resolveUser` can read `req.user`
+ * or the session.
+ *
+ * @param endpoint Endpoint created with createTokenEndpoint
+ * @returns Express/Connect route handler
+ */
+export function expressTokenEndpoint<R extends TokenEndpointRequest>(
+  endpoint: TokenEndpoint<R>
+): (req: R, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    const { status, headers, body } = await endpoint(req);
+    res.statusCode = status;
+    for (const [name, value] of Object.entries(headers)) {
+      res.setHeader(name, value);
+    }
+    res.end(JSON.stringify(body));
+  };
+}
+
+/**
+ * Map an error to a token endpoint response
+ */
+function mapError(error: unknown): TokenEndpointResponse {
+  if (error instanceof ValidationError) {
+    return errorResponse(400, 'invalid_user', error.serverMessage || 'User information was rejected');
+  }
+  if (error instanceof RateLimitError) {
+    const response = errorResponse(429, 'rate_limited', 'Too many requests, try again later');
+    if (error.retryAfterMs !== undefined) {
+      response.headers['retry-after'] = String(Math.ceil(error.retryAfterMs / 1000));
+    }
+    return response;
+  }
+  if (error instanceof ServerAPIError) {
+    return errorResponse(502, 'upstream_error', 'ContactsManager is unavailable');
+  }
+  return errorResponse(500, 'internal_error', 'Failed to issue token');
+}
+
+/**
+ * Build an error response
+ */
+function errorResponse(status: number, error: TokenEndpointErrorBody['error'], message: string): TokenEndpointResponse {
+  return {
+    status,
+    headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+    body: { error, message },
+  };
+}
+
+/**
+ * Read a header from a Fetch API `Headers` object or a Node.js header record
+ */
+function getHeader(headers: TokenEndpointHeaders, name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    return (headers as HeadersLike).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, string | string[] | undefined>)[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Detect the operating system from a User-Agent header
+ */
+function detectOs(userAgent: string): string | undefined {
+  if (/iPhone|iPad|iPod/.test(userAgent)) {
+    return 'iOS';
+  }
+  if (/Android/.test(userAgent)) {
+    return 'Android';
+  }
+  if (/Windows/.test(userAgent)) {
+    return 'Windows';
+  }
+  if (/Mac OS X|Macintosh/.test(userAgent)) {
+    return 'macOS';
+  }
+  if (/Linux/.test(userAgent)) {
+    return 'Linux';
+  }
+  return undefined;
+}
@@ -0,0 +1,716 @@
+/// <reference types="jest" />
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import {
+  ContactsManagerClient,
+  TokenVerificationError,
+  MalformedTokenError,
+  InvalidTokenSignatureError,
+  TokenExpiredError,
+  TokenNotYetValidError,
+  WrongOrganizationError,
+  InvalidTokenClaimsError,
+  TokenReuseError,
+  TokenRevokedError,
+  InMemoryRevocationStore,
+  RevocationStore,
+  InMemoryTokenRotationStore,
+  exportPublicJwks
+} from './index';
+
+// These tests sign and verify real tokens, so jsonwebtoken is not mocked here
+describe('Token verification', () => {
+  const mockConfig = {
+    apiKey: 'test-api-key',
+    apiSecret: 'test-api-secret',
+    orgId: 'test-org-id'
+  };
+  const client = new ContactsManagerClient(mockConfig);
+
+  const signPayload = (overrides: Record<string, any> = {}, secret: string = mockConfig.apiSecret) => {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: Record<string, any> = {
+      user_id: 'test-user-id',
+      api_key: mockConfig.apiKey,
+      org_id: mockConfig.orgId,
+      device: {},
+      jti: 'test-jti',
+      iat: now,
+      exp: now + 3600,
+      ...overrides
+    };
+    // Overriding a claim with undefined removes it
+    Object.keys(payload).forEach(key => payload[key] === undefined && delete payload[key]);
+    return jwt.sign(payload, secret, { algorithm: 'HS256' });
+  };
+
+  describe('verifyToken', () => {
+    it('should verify a token minted by generateToken', async () => {
+      const deviceInfo = { deviceType: 'mobile', os: 'iOS' };
+      const { token, expiresAt } = await client.generateToken({ userId: 'test-user-id', deviceInfo });
+
+      const verified = await client.verifyToken(token);
+
+      expect(verified.userId).toBe('test-user-id');
+      expect(verified.deviceInfo).toEqual(deviceInfo);
+      expect(verified.jti).toEqual(expect.any(String));
+      expect(verified.expiresAt).toEqual(expiresAt);
+      expect(verified.issuedAt).toBeInstanceOf(Date);
+      expect(verified.payload.org_id).toBe('test-org-id');
+    });
+
+    it('should reject malformed tokens', async () => {
+      await expect(client.verifyToken('not-a-jwt')).rejects.toBeInstanceOf(MalformedTokenError);
+      await expect(client.verifyToken('')).rejects.toBeInstanceOf(MalformedTokenError);
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+      const error = await client.verifyToken(signPayload({}, 'other-secret')).catch(e => e);
+
+      expect(error).toBeInstanceOf(InvalidTokenSignatureError);
+      expect(error).toBeInstanceOf(TokenVerificationError);
+      expect(error.reason).toBe('invalid_signature');
+    });
+
+    it('should reject expired tokens unless within the clock tolerance', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const token = signPayload({ iat: now - 120, exp: now - 30 });
+
+      const error = await client.verifyToken(token).catch(e => e);
+      expect(error).toBeInstanceOf(TokenExpiredError);
+      expect(error.expiredAt).toEqual(new Date((now - 30) * 1000));
+
+      await expect(client.verifyToken(token, { clockTolerance: 60 })).resolves.toHaveProperty('userId');
+    });
+
+    it('should reject tokens issued in the future', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const token = signPayload({ iat: now + 300, exp: now + 3600 });
+
+      await expect(client.verifyToken(token)).rejects.toMatchObject({ name: 'InvalidTokenClaimsError', claim: 'iat' });
+      await expect(client.verifyToken(token, { clockTolerance: 600 })).resolves.toHaveProperty('userId');
+    });
+
+    it('should reject tokens for another organization or API key', async () => {
+      await expect(client.verifyToken(signPayload({ org_id: 'other-org' }))).rejects.toBeInstanceOf(
+        WrongOrganizationError
+      );
+      await expect(client.verifyToken(signPayload({ api_key: 'other-key' }))).rejects.toThrow(
+        'Token was issued for a different API key'
+      );
+    });
+
+    it('should reject tokens with missing claims', async () => {
+      await expect(client.verifyToken(signPayload({ user_id: undefined }))).rejects.toBeInstanceOf(
+        InvalidTokenClaimsError
+      );
+      await expect(client.verifyToken(signPayload({ exp: undefined }))).rejects.toMatchObject({ claim: 'exp' });
+    });
+
+    it('should report whether the token identifies a user or the server', async () => {
+      const { token } = await client.generateToken({ userId: 'test-user-id' });
+      await expect(client.verifyToken(token)).resolves.toHaveProperty('principal', 'user');
+
+      const serverToken = signPayload({ user_id: 'server:test-org-id', principal: 'server', device: undefined });
+      await expect(client.verifyToken(serverToken)).resolves.toHaveProperty('principal', 'server');
+      await expect(client.refreshToken(serverToken)).rejects.toThrow('Server tokens cannot be refreshed');
+      await expect(
+        client.generateToken({ userId: 'test-user-id', claims: { principal: 'server' } })
+      ).rejects.toThrow('Custom claims may not override reserved claims: principal');
+    });
+
+    it('should require device information when requested', async () => {
+      await expect(client.verifyToken(signPayload(), { requireDevice: true })).rejects.toMatchObject({
+        claim: 'device'
+      });
+      await expect(
+        client.verifyToken(signPayload({ device: { os: 'iOS' } }), { requireDevice: true })
+      ).resolves.toHaveProperty('deviceInfo', { os: 'iOS' });
+    });
+  });
+
+  describe('refreshToken', () => {
+    it('should issue a new token preserving user and device', async () => {
+      const deviceInfo = { deviceType: 'web', os: 'macOS' };
+      const original = await client.generateToken({ userId: 'test-user-id', deviceInfo, expirationSeconds: 600 });
+
+      const refreshed = await client.refreshToken(original.token);
+      const verified = await client.verifyToken(refreshed.token);
+
+      expect(refreshed.previousJti).toBe(original.jti);
+      expect(refreshed.jti).not.toBe(original.jti);
+      expect(verified.jti).toBe(refreshed.jti);
+      expect(verified.userId).toBe('test-user-id');
+      expect(verified.deviceInfo).toEqual(deviceInfo);
+      expect(verified.payload.exp - verified.payload.iat).toBe(600);
+    });
+
+    it('should honor a custom expiration for the new token', async () => {
+      const original = await client.generateToken({ userId: 'test-user-id' });
+
+      const refreshed = await client.refreshToken(original.token, { expirationSeconds: 60 });
+      const verified = await client.verifyToken(refreshed.token);
+
+      expect(verified.payload.exp - verified.payload.iat).toBe(60);
+    });
+
+    it('should refresh an expired token within the grace period only', async () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      const withinGrace = signPayload({ jti: 'grace-jti', iat: now - 3600, exp: now - 60 });
+      await expect(client.refreshToken(withinGrace, { gracePeriodSeconds: 300 })).resolves.toHaveProperty(
+        'previousJti',
+        'grace-jti'
+      );
+
+      const pastGrace = signPayload({ jti: 'stale-jti', iat: now - 3600, exp: now - 600 });
+      await expect(client.refreshToken(pastGrace, { gracePeriodSeconds: 300 })).rejects.toBeInstanceOf(
+        TokenExpiredError
+      );
+      await expect(client.refreshToken(pastGrace)).rejects.toBeInstanceOf(TokenExpiredError);
+    });
+
+    it('should detect reuse of a rotated token', async () => {
+      const original = await client.generateToken({ userId: 'test-user-id' });
+      const refreshed = await client.refreshToken(original.token);
+
+      const error = await client.refreshToken(original.token).catch(e => e);
+
+      expect(error).toBeInstanceOf(TokenReuseError);
+      expect(error.reason).toBe('reused');
+      expect(error.jti).toBe(original.jti);
+      expect(error.rotatedTo).toBe(refreshed.jti);
+
+      // The new token can still be rotated
+      await expect(client.refreshToken(refreshed.token)).resolves.toHaveProperty('previousJti', refreshed.jti);
+    });
+
+    it('should let only one of two concurrent refreshes succeed', async () => {
+      const original = await client.generateToken({ userId: 'test-user-id' });
+
+      const results = await Promise.allSettled([
+        client.refreshToken(original.token),
+        client.refreshToken(original.token)
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const rejected = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0].reason).toBeInstanceOf(TokenReuseError);
+    });
+
+    it('should detect reuse across clients sharing a rotation store', async () => {
+      const rotationStore = new InMemoryTokenRotationStore();
+      const first = new ContactsManagerClient({ ...mockConfig, rotationStore });
+      const second = new ContactsManagerClient({ ...mockConfig, rotationStore });
+      const original = await first.generateToken({ userId: 'test-user-id' });
+
+      await first.refreshToken(original.token);
+
+      await expect(second.refreshToken(original.token)).rejects.toBeInstanceOf(TokenReuseError);
+    });
+
+    it('should reject tokens that fail verification', async () => {
+      await expect(client.refreshToken(signPayload({}, 'other-secret'))).rejects.toBeInstanceOf(
+        InvalidTokenSignatureError
+      );
+      await expect(client.refreshToken(signPayload({ org_id: 'other-org' }))).rejects.toBeInstanceOf(
+        WrongOrganizationError
+      );
+    });
+
+    it('should bound the grace period', async () => {
+      const { token } = await client.generateToken({ userId: 'test-user-id' });
+
+      await expect(client.refreshToken(token, { gracePeriodSeconds: -1 })).rejects.toThrow(
+        'gracePeriodSeconds must be between 0 and 604800'
+      );
+      await expect(client.refreshToken(token, { gracePeriodSeconds: 30 * 86400 })).rejects.toThrow(
+        'gracePeriodSeconds must be between 0 and 604800'
+      );
+    });
+  });
+
+  describe('revocation', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should reject a token revoked by value', async () => {
+      const revokingClient = new ContactsManagerClient(mockConfig);
+      const { token, jti } = await revokingClient.generateToken({ userId: 'test-user-id' });
+
+      await revokingClient.revokeToken(token);
+
+      const error = await revokingClient.verifyToken(token).catch(e => e);
+      expect(error).toBeInstanceOf(TokenRevokedError);
+      expect(error.reason).toBe('revoked');
+      expect(error.jti).toBe(jti);
+    });
+
+    it('should reject a token revoked by jti and prevent refreshing it', async () => {
+      const revokingClient = new ContactsManagerClient(mockConfig);
+      const { token, jti } = await revokingClient.generateToken({ userId: 'test-user-id' });
+
+      await revokingClient.revokeToken(jti);
+
+      await expect(revokingClient.verifyToken(token)).rejects.toBeInstanceOf(TokenRevokedError);
+      await expect(revokingClient.refreshToken(token)).rejects.toBeInstanceOf(TokenRevokedError);
+    });
+
+    it('should revoke all tokens previously issued to a user', async () => {
+      const revokingClient = new ContactsManagerClient(mockConfig);
+      const now = 1700000000000;
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      const first = await revokingClient.generateToken({ userId: 'user-a' });
+      const other = await revokingClient.generateToken({ userId: 'user-b' });
+      nowSpy.mockReturnValue(now + 1000);
+      await revokingClient.revokeAllForUser('user-a');
+
+      nowSpy.mockReturnValue(now + 2000);
+      const later = await revokingClient.generateToken({ userId: 'user-a' });
+
+      await expect(revokingClient.verifyToken(first.token, { clockTolerance: 10 })).rejects.toThrow(
+        'All tokens for this user have been revoked'
+      );
+      await expect(revokingClient.verifyToken(other.token, { clockTolerance: 10 })).resolves.toHaveProperty(
+        'userId',
+        'user-b'
+      );
+      await expect(revokingClient.verifyToken(later.token, { clockTolerance: 10 })).resolves.toHaveProperty(
+        'userId',
+        'user-a'
+      );
+    });
+
+    it('should accept a token issued in the same second as revoking all tokens', async () => {
+      const revokingClient = new ContactsManagerClient(mockConfig);
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1700000000100);
+
+      await revokingClient.revokeAllForUser('user-a');
+      nowSpy.mockReturnValue(1700000000900);
+      const relogin = await revokingClient.generateToken({ userId: 'user-a' });
+
+      await expect(revokingClient.verifyToken(relogin.token)).resolves.toHaveProperty('userId', 'user-a');
+    });
+
+    it('should use a custom revocation store', async () => {
+      const store: RevocationStore = {
+        revokeToken: jest.fn().mockResolvedValue(undefined),
+        isTokenRevoked: jest.fn().mockResolvedValue(true),
+        revokeUser: jest.fn().mockResolvedValue(undefined),
+        getUserRevokedAt: jest.fn().mockResolvedValue(null)
+      };
+      const storeClient = new ContactsManagerClient({ ...mockConfig, revocationStore: store });
+      const { token, jti, expiresAt } = await storeClient.generateToken({ userId: 'test-user-id' });
+
+      await storeClient.revokeToken(token);
+      await expect(storeClient.verifyToken(token)).rejects.toBeInstanceOf(TokenRevokedError);
+
+      expect(store.revokeToken).toHaveBeenCalledWith(jti, expiresAt);
+      expect(store.isTokenRevoked).toHaveBeenCalledWith(jti);
+    });
+
+    it('should not revoke tokens signed by someone else', async () => {
+      await expect(client.revokeToken(signPayload({}, 'other-secret'))).rejects.toBeInstanceOf(
+        InvalidTokenSignatureError
+      );
+    });
+  });
+
+  describe('InMemoryRevocationStore', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should drop entries once they expire', async () => {
+      const store = new InMemoryRevocationStore();
+      const now = 1700000000000;
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await store.revokeToken('jti-1', new Date(now + 1000));
+      await store.revokeUser('user-a', new Date(now), new Date(now + 1000));
+
+      expect(await store.isTokenRevoked('jti-1')).toBe(true);
+      expect(await store.getUserRevokedAt('user-a')).toEqual(new Date(now));
+
+      nowSpy.mockReturnValue(now + 1000);
+
+      expect(await store.isTokenRevoked('jti-1')).toBe(false);
+      expect(await store.getUserRevokedAt('user-a')).toBeNull();
+    });
+
+    it('should keep the latest user revocation', async () => {
+      const store = new InMemoryRevocationStore();
+      const expiresAt = new Date(Date.now() + 60000);
+
+      await store.revokeUser('user-a', new Date(2000), expiresAt);
+      await store.revokeUser('user-a', new Date(1000), expiresAt);
+
+      expect(await store.getUserRevokedAt('user-a')).toEqual(new Date(2000));
+    });
+  });
+
+  describe('custom claims', () => {
+    it('should embed custom claims, scopes, audience and issuer', async () => {
+      const response = await client.generateToken({
+        userId: 'test-user-id',
+        claims: { tenant: 'acme', roles: ['admin'] },
+        scopes: ['contacts:read', 'contacts:write'],
+        audience: 'https://api.example.com',
+        issuer: 'https://auth.example.com',
+      });
+
+      expect(response.claims).toEqual({ tenant: 'acme', roles: ['admin'] });
+      expect(response.scopes).toEqual(['contacts:read', 'contacts:write']);
+      expect(response.audience).toBe('https://api.example.com');
+      expect(response.issuer).toBe('https://auth.example.com');
+
+      const verified = await client.verifyToken(response.token, {
+        audience: ['https://other.example.com', 'https://api.example.com'],
+        issuer: 'https://auth.example.com',
+      });
+
+      expect(verified.claims).toEqual({ tenant: 'acme', roles: ['admin'] });
+      expect(verified.scopes).toEqual(['contacts:read', 'contacts:write']);
+      expect(verified.payload.scope).toBe('contacts:read contacts:write');
+      expect(verified.audience).toBe('https://api.example.com');
+      expect(verified.issuer).toBe('https://auth.example.com');
+    });
+
+    it('should report no custom claims or scopes for plain tokens', async () => {
+      const response = await client.generateToken({ userId: 'test-user-id' });
+      const verified = await client.verifyToken(response.token);
+
+      expect(response).not.toHaveProperty('claims');
+      expect(verified.claims).toEqual({});
+      expect(verified.scopes).toEqual([]);
+    });
+
+    it('should reject custom claims that override reserved claims', async () => {
+      await expect(
+        client.generateToken({ userId: 'test-user-id', claims: { org_id: 'other-org', exp: 0 } })
+      ).rejects.toThrow('Custom claims may not override reserved claims: org_id, exp');
+      await expect(
+        client.generateToken({ userId: 'test-user-id', claims: ['a'] as any })
+      ).rejects.toThrow('claims must be an object');
+    });
+
+    it('should validate scopes', async () => {
+      await expect(client.generateToken({ userId: 'test-user-id', scopes: ['two words'] })).rejects.toThrow(
+        'scopes must be an array of non-empty strings without whitespace'
+      );
+      await expect(client.generateToken({ userId: 'test-user-id', scopes: [''] })).rejects.toThrow(
+        'scopes must be an array of non-empty strings without whitespace'
+      );
+    });
+
+    it('should reject tokens for another audience or issuer', async () => {
+      const { token } = await client.generateToken({
+        userId: 'test-user-id',
+        audience: ['https://api.example.com'],
+        issuer: 'https://auth.example.com',
+      });
+
+      const audienceError = await client.verifyToken(token, { audience: 'https://other.example.com' }).catch(e => e);
+      expect(audienceError).toBeInstanceOf(InvalidTokenClaimsError);
+      expect(audienceError.claim).toBe('aud');
+
+      const issuerError = await client.verifyToken(token, { issuer: 'https://evil.example.com' }).catch(e => e);
+      expect(issuerError).toBeInstanceOf(InvalidTokenClaimsError);
+      expect(issuerError.claim).toBe('iss');
+
+      const plain = await client.generateToken({ userId: 'test-user-id' });
+      await expect(client.verifyToken(plain.token, { issuer: 'https://auth.example.com' })).rejects.toBeInstanceOf(
+        InvalidTokenClaimsError
+      );
+    });
+
+    it('should reject tokens used before their not-before time', async () => {
+      const response = await client.generateToken({ userId: 'test-user-id', notBefore: 120 });
+
+      expect(response.notBefore?.getTime()).toBeGreaterThan(Date.now());
+
+      const error = await client.verifyToken(response.token).catch(e => e);
+      expect(error).toBeInstanceOf(TokenNotYetValidError);
+      expect(error.reason).toBe('not_yet_valid');
+      expect(error.notBefore).toEqual(response.notBefore);
+
+      await expect(client.verifyToken(response.token, { clockTolerance: 300 })).resolves.toHaveProperty(
+        'notBefore',
+        response.notBefore
+      );
+    });
+
+    it('should require notBefore to precede the expiration', async () => {
+      await expect(
+        client.generateToken({ userId: 'test-user-id', expirationSeconds: 60, notBefore: 60 })
+      ).rejects.toThrow('notBefore must be earlier than the token expiration');
+      await expect(
+        client.generateToken({ userId: 'test-user-id', notBefore: new Date('invalid') })
+      ).rejects.toThrow('notBefore must be a valid date or number of seconds');
+    });
+
+    it('should carry custom claims over when refreshing', async () => {
+      const original = await client.generateToken({
+        userId: 'test-user-id',
+        claims: { tenant: 'acme' },
+        scopes: ['contacts:read'],
+        audience: 'https://api.example.com',
+        issuer: 'https://auth.example.com',
+      });
+
+      const refreshed = await client.refreshToken(original.token);
+      const verified = await client.verifyToken(refreshed.token);
+
+      expect(verified.claims).toEqual({ tenant: 'acme' });
+      expect(verified.scopes).toEqual(['contacts:read']);
+      expect(verified.audience).toBe('https://api.example.com');
+      expect(verified.issuer).toBe('https://auth.example.com');
+    });
+  });
+
+  describe('keyring', () => {
+    const keyringConfig = (keys: Array<{ kid: string; secret: string; retired?: boolean }>, activeKid: string) => ({
+      apiKey: mockConfig.apiKey,
+      orgId: mockConfig.orgId,
+      keyring: { keys, activeKid },
+    });
+
+    it('should stamp the active kid and verify with it', async () => {
+      const rotating = new ContactsManagerClient(
+        keyringConfig([{ kid: 'k1', secret: 'secret-1' }, { kid: 'k2', secret: 'secret-2' }], 'k2')
+      );
+
+      const { token } = await rotating.generateToken({ userId: 'test-user-id' });
+
+      expect(rotating.decodeToken(token).header.kid).toBe('k2');
+      expect(jwt.verify(token, 'secret-2')).toHaveProperty('user_id', 'test-user-id');
+      await expect(rotating.verifyToken(token)).resolves.toHaveProperty('userId', 'test-user-id');
+    });
+
+    it('should keep accepting tokens signed by a previous key until it is retired', async () => {
+      const before = new ContactsManagerClient(keyringConfig([{ kid: 'k1', secret: 'secret-1' }], 'k1'));
+      const { token } = await before.generateToken({ userId: 'test-user-id' });
+
+      const rolled = new ContactsManagerClient(
+        keyringConfig([{ kid: 'k1', secret: 'secret-1' }, { kid: 'k2', secret: 'secret-2' }], 'k2')
+      );
+      await expect(rolled.verifyToken(token)).resolves.toHaveProperty('userId', 'test-user-id');
+      await expect(rolled.refreshToken(token)).resolves.toHaveProperty('previousJti');
+
+      const retired = new ContactsManagerClient(
+        keyringConfig([{ kid: 'k1', secret: 'secret-1', retired: true }, { kid: 'k2', secret: 'secret-2' }], 'k2')
+      );
+      await expect(retired.verifyToken(token)).rejects.toThrow('Token was signed with a retired key: k1');
+    });
+
+    it('should reject unknown kids and tampered signatures', async () => {
+      const rotating = new ContactsManagerClient(keyringConfig([{ kid: 'k1', secret: 'secret-1' }], 'k1'));
+
+      const unknown = jwt.sign({ user_id: 'test-user-id' }, 'secret-9', { algorithm: 'HS256', keyid: 'k9' });
+      await expect(rotating.verifyToken(unknown)).rejects.toThrow('Token was signed with an unknown key: k9');
+
+      const forged = jwt.sign({ user_id: 'test-user-id' }, 'secret-2', { algorithm: 'HS256', keyid: 'k1' });
+      await expect(rotating.verifyToken(forged)).rejects.toBeInstanceOf(InvalidTokenSignatureError);
+    });
+
+    it('should check tokens without a kid against every active key', async () => {
+      const rotating = new ContactsManagerClient(
+        keyringConfig(
+          [{ kid: 'k1', secret: mockConfig.apiSecret }, { kid: 'k2', secret: 'secret-2' }, { kid: 'k0', secret: 'old', retired: true }],
+          'k2'
+        )
+      );
+
+      await expect(rotating.verifyToken(signPayload())).resolves.toHaveProperty('userId', 'test-user-id');
+      await expect(rotating.verifyToken(signPayload({}, 'old'))).rejects.toBeInstanceOf(InvalidTokenSignatureError);
+
+      const now = Math.floor(Date.now() / 1000);
+      await expect(
+        rotating.verifyToken(signPayload({ iat: now - 7200, exp: now - 3600 }))
+      ).rejects.toBeInstanceOf(TokenExpiredError);
+    });
+
+    it('should validate the keyring', () => {
+      expect(() => new ContactsManagerClient(keyringConfig([], 'k1'))).toThrow(
+        'keyring must contain at least one key'
+      );
+      expect(() => new ContactsManagerClient(keyringConfig([{ kid: 'k1', secret: 'a' }, { kid: 'k1', secret: 'b' }], 'k1'))).toThrow(
+        'Duplicate keyring kid: k1'
+      );
+      expect(() => new ContactsManagerClient(keyringConfig([{ kid: 'k1', secret: '' }], 'k1'))).toThrow(
+        'Keyring key k1 is missing its secret'
+      );
+      expect(() => new ContactsManagerClient(keyringConfig([{ kid: 'k1', secret: 'a' }], 'k2'))).toThrow(
+        'Active key k2 is not in the keyring'
+      );
+      expect(() => new ContactsManagerClient(keyringConfig([{ kid: 'k1', secret: 'a', retired: true }], 'k1'))).toThrow(
+        'Active key k1 is retired'
+      );
+      expect(
+        () => new ContactsManagerClient({ ...keyringConfig([{ kid: 'k1', secret: 'a' }], 'k1'), apiSecret: 'b' })
+      ).toThrow('Specify only one of apiSecret or keyring');
+    });
+  });
+
+  describe('asymmetric signing', () => {
+    const rsaKeys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const ecKeys = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const edKeys = crypto.generateKeyPairSync('ed25519');
+
+    const asymmetricClient = (signingKey: Record<string, any>) =>
+      new ContactsManagerClient({ ...mockConfig, signingKey: signingKey as any });
+
+    it.each([
+      ['RS256', rsaKeys],
+      ['ES256', ecKeys],
+      ['EdDSA', edKeys],
+    ])('should sign and verify %s tokens', async (algorithm, keys) => {
+      const signer = asymmetricClient({ algorithm, privateKey: keys.privateKey });
+
+      const { token } = await signer.generateToken({ userId: 'test-user-id', claims: { tenant: 'acme' } });
+      const { header } = signer.decodeToken(token);
+
+      expect(header.alg).toBe(algorithm);
+      expect(header.kid).toBe(signer.getPublicJwks().keys[0].kid);
+
+      const verified = await signer.verifyToken(token);
+      expect(verified.userId).toBe('test-user-id');
+      expect(verified.claims).toEqual({ tenant: 'acme' });
+      await expect(signer.refreshToken(token)).resolves.toHaveProperty('previousJti', verified.jti);
+    });
+
+    it('should accept PEM private keys', async () => {
+      const pem = ecKeys.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+      const signer = asymmetricClient({ algorithm: 'ES256', privateKey: pem, kid: 'ec-1' });
+
+      const { token } = await signer.generateToken({ userId: 'test-user-id' });
+
+      expect(signer.decodeToken(token).header.kid).toBe('ec-1');
+      await expect(signer.verifyToken(token)).resolves.toHaveProperty('userId', 'test-user-id');
+    });
+
+    it('should export a JWKS that standard libraries can verify against', async () => {
+      const signer = asymmetricClient({ algorithm: 'RS256', privateKey: rsaKeys.privateKey, kid: 'rsa-1' });
+      const { token } = await signer.generateToken({ userId: 'test-user-id' });
+
+      const jwks = signer.getPublicJwks();
+      expect(jwks.keys).toEqual([
+        expect.objectContaining({ kty: 'RSA', kid: 'rsa-1', alg: 'RS256', use: 'sig', n: expect.any(String), e: 'AQAB' }),
+      ]);
+      expect(jwks.keys[0]).not.toHaveProperty('d');
+      expect(exportPublicJwks({ algorithm: 'RS256', privateKey: rsaKeys.privateKey, kid: 'rsa-1' })).toEqual(jwks);
+
+      const publicKey = crypto.createPublicKey({ key: jwks.keys[0] as any, format: 'jwk' });
+      expect(jwt.verify(token, publicKey, { algorithms: ['RS256'] })).toHaveProperty('user_id', 'test-user-id');
+    });
+
+    it('should default the kid to the JWK thumbprint', () => {
+      const signer = asymmetricClient({ algorithm: 'EdDSA', privateKey: edKeys.privateKey });
+      const { kid, kty, crv, x } = signer.getPublicJwks().keys[0];
+
+      const thumbprint = crypto.createHash('sha256').update(JSON.stringify({ crv, kty, x })).digest('base64url');
+      expect(kid).toBe(thumbprint);
+    });
+
+    it('should reject tokens signed with another key or algorithm', async () => {
+      const signer = asymmetricClient({ algorithm: 'ES256', privateKey: ecKeys.privateKey, kid: 'ec-1' });
+      const otherKeys = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      const impostor = asymmetricClient({ algorithm: 'ES256', privateKey: otherKeys.privateKey, kid: 'ec-1' });
+
+      const forged = await impostor.generateToken({ userId: 'test-user-id' });
+      await expect(signer.verifyToken(forged.token)).rejects.toBeInstanceOf(InvalidTokenSignatureError);
+
+      // A token signed with a shared secret must not pass as an asymmetric one
+      await expect(signer.verifyToken(signPayload())).rejects.toThrow('Token algorithm HS256 does not match ES256');
+    });
+
+    it('should check expiry and not-before for asymmetric tokens', async () => {
+      const signer = asymmetricClient({ algorithm: 'EdDSA', privateKey: edKeys.privateKey });
+
+      const early = await signer.generateToken({ userId: 'test-user-id', notBefore: 120 });
+      await expect(signer.verifyToken(early.token)).rejects.toBeInstanceOf(TokenNotYetValidError);
+
+      const expiring = await signer.generateToken({ userId: 'test-user-id', expirationSeconds: 60 });
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 90 * 1000);
+      try {
+        await expect(signer.verifyToken(expiring.token)).rejects.toBeInstanceOf(TokenExpiredError);
+        await expect(signer.verifyToken(expiring.token, { clockTolerance: 60 })).resolves.toHaveProperty('userId');
+        await expect(signer.refreshToken(expiring.token, { gracePeriodSeconds: 60 })).resolves.toHaveProperty(
+          'previousJti'
+        );
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    it.each([
+      ['the server credential', { serverCredential: true }],
+      ['per-user server tokens', {}],
+    ])('should keep signing %s with the API secret', async (_, options) => {
+      const signer = new ContactsManagerClient({
+        ...mockConfig,
+        ...options,
+        retry: false,
+        signingKey: { algorithm: 'ES256', privateKey: ecKeys.privateKey }
+      });
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ status: 'success', data: { user: { organization_user_id: 'test-user-id' } } })
+      });
+      const originalFetch = global.fetch;
+      global.fetch = fetchMock as any;
+      try {
+        await signer.getUser('test-user-id');
+      } finally {
+        global.fetch = originalFetch;
+      }
+
+      const serverToken = fetchMock.mock.calls[0][1].headers.Authorization.replace('Bearer ', '');
+      expect(signer.decodeToken(serverToken).header.alg).toBe('HS256');
+      expect(() => jwt.verify(serverToken, mockConfig.apiSecret, { algorithms: ['HS256'] })).not.toThrow();
+    });
+
+    it('should validate the signing key', () => {
+      expect(() => asymmetricClient({ algorithm: 'HS256', privateKey: rsaKeys.privateKey })).toThrow(
+        'signingKey.algorithm must be one of RS256, ES256, EdDSA'
+      );
+      expect(() => asymmetricClient({ algorithm: 'ES256', privateKey: rsaKeys.privateKey })).toThrow(
+        'ES256 requires an EC key on the P-256 curve'
+      );
+      expect(() => asymmetricClient({ algorithm: 'EdDSA', privateKey: ecKeys.privateKey })).toThrow(
+        'EdDSA requires an Ed25519 or Ed448 key'
+      );
+      expect(() => asymmetricClient({ algorithm: 'RS256', privateKey: rsaKeys.publicKey })).toThrow(
+        'signingKey.privateKey must be a private key'
+      );
+      expect(() => asymmetricClient({ algorithm: 'RS256', privateKey: 'not a pem' })).toThrow(
+        'signingKey.privateKey is not a valid private key'
+      );
+      expect(
+        () => new ContactsManagerClient({
+          apiKey: mockConfig.apiKey,
+          orgId: mockConfig.orgId,
+          signingKey: { algorithm: 'EdDSA', privateKey: edKeys.privateKey }
+        })
+      ).toThrow('Missing required configuration');
+      expect(() => client.getPublicJwks()).toThrow('only available when the client is configured with a signingKey');
+    });
+  });
+
+  describe('decodeToken', () => {
+    it('should decode a token without verifying it', () => {
+      const decoded = client.decodeToken(signPayload({}, 'other-secret'));
+
+      expect(decoded.header.alg).toBe('HS256');
+      expect(decoded.payload.user_id).toBe('test-user-id');
+    });
+
+    it('should throw for malformed tokens', () => {
+      expect(() => client.decodeToken('garbage')).toThrow(MalformedTokenError);
+    });
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Token payload types, decoding helpers and verification errors for ContactsManager SDK
+ */
+
+import jwt from 'jsonwebtoken';
+import { DeviceInfo } from './server-api';
+
+/**
+ * Interface for the claims of a token minted by ContactsManagerClient.generateToken
+ */
+export interface TokenPayload {
+  user_id: string;
+  api_key: string;
+  org_id: string;
+  device: DeviceInfo;
+  jti: string;
+  iat: number;
+  exp: number;
+  nbf?: number;
+  aud?: string | string[];
+  iss?: string;
+  scope?: string; // Space-delimited scopes
+  principal?: 'server'; // Set on server credentials; absent on user tokens
+  [claim: string]: any;
+}
+
+// Claims set by the SDK itself, which custom claims may not override
+export const RESERVED_CLAIMS: readonly string[] = [
+  'user_id',
+  'api_key',
+  'org_id',
+  'device',
+  'jti',
+  'iat',
+  'exp',
+  'nbf',
+  'aud',
+  'iss',
+  'sub',
+  'scope',
+  'principal',
+];
+
+/**
+ * Interface for a JWT header
+ */
+export interface TokenHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+  [key: string]: any;
+}
+
+/**
+ * Interface for a decoded, unverified token
+ */
+export interface DecodedToken {
+  header: TokenHeader;
+  payload: TokenPayload;
+}
+
+/**
+ * Interface for a verified token
+ */
+export interface VerifiedToken {
+  principal: 'user' | 'server'; // Whether the token identifies an end user or the organization's backend
+  userId: string;
+  deviceInfo: DeviceInfo;
+  jti: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  notBefore?: Date;
+  audience?: string | string[];
+  issuer?: string;
+  scopes: string[];
+  claims: Record<string, any>; // Custom claims
+  payload: TokenPayload; // Raw claims
+}
+
+/**
+ * Interface for token verification options
+ */
+export interface VerifyTokenOptions {
+  clockTolerance?: number; // Allowed clock skew in seconds for exp, nbf and iat (default: 0)
+  requireDevice?: boolean; // Reject tokens without device information (default: false)
+  audience?: string | string[]; // Require the aud claim to contain one of these values
+  issuer?: string | string[]; // Require the iss claim to be one of these values
+}
+
+/**
+ * Interface for token refresh options
+ */
+export interface RefreshTokenOptions {
+  gracePeriodSeconds?: number; // How long after expiry the token may still be refreshed (default: 0)
+  expirationSeconds?: number; // Lifetime of the new token (default: lifetime of the old token)
+  clockTolerance?: number; // Allowed clock skew in seconds (default: 0)
+}
+
+// Upper bound for the refresh grace period (7 days)
+export const MAX_REFRESH_GRACE_SECONDS = 7 * 86400;
+
+/**
+ * Reason a token failed verification
+ */
+export type TokenErrorReason =
+  | 'malformed'
+  | 'invalid_signature'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'wrong_organization'
+  | 'invalid_claims'
+  | 'reused'
+  | 'revoked';
+
+/**
+ * Base error class for token verification failures
+ */
+export class TokenVerificationError extends Error {
+  public reason: TokenErrorReason;
+
+  constructor(message: string, reason: TokenErrorReason) {
+    super(message);
+    this.name = 'TokenVerificationError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error thrown when a token is not a well-formed JWT
+ */
+export class MalformedTokenError extends TokenVerificationError {
+  constructor(message: string) {
+    super(message, 'malformed');
+    this.name = 'MalformedTokenError';
+  }
+}
+
+/**
+ * Error thrown when a token signature does not match
+ */
+export class InvalidTokenSignatureError extends TokenVerificationError {
+  constructor(message: string) {
+    super(message, 'invalid_signature');
+    this.name = 'InvalidTokenSignatureError';
+  }
+}
+
+/**
+ * Error thrown when a token has expired
+ */
+export class TokenExpiredError extends TokenVerificationError {
+  public expiredAt: Date;
+
+  constructor(message: string, expiredAt: Date) {
+    super(message, 'expired');
+    this.name = 'TokenExpiredError';
+    this.expiredAt = expiredAt;
+  }
+}
+
+/**
+ * Error thrown when a token is used before its not-before time
+ */
+export class TokenNotYetValidError extends TokenVerificationError {
+  public notBefore: Date;
+
+  constructor(message: string, notBefore: Date) {
+    super(message, 'not_yet_valid');
+    this.name = 'TokenNotYetValidError';
+    this.notBefore = notBefore;
+  }
+}
+
+/**
+ * Error thrown when a token was issued for another organization or API key
+ */
+export class WrongOrganizationError extends TokenVerificationError {
+  constructor(message: string) {
+    super(message, 'wrong_organization');
+    this.name = 'WrongOrganizationError';
+  }
+}
+
+/**
+ * Error thrown when required claims are missing or invalid
+ */
+export class InvalidTokenClaimsError extends TokenVerificationError {
+  public claim: string;
+
+  constructor(message: string, claim: string) {
+    super(message, 'invalid_claims');
+    this.name = 'InvalidTokenClaimsError';
+    this.claim = claim;
+  }
+}
+
+/**
+ * Error thrown when a token that has already been rotated is refreshed again
+ */
+export class TokenReuseError extends TokenVerificationError {
+  public jti: string;
+  public rotatedTo: string;
+
+  constructor(message: string, jti: string, rotatedTo: string) {
+    super(message, 'reused');
+    this.name = 'TokenReuseError';
+    this.jti = jti;
+    this.rotatedTo = rotatedTo;
+  }
+}
+
+/**
+ * Error thrown when a token, or every token of its user, has been revoked
+ */
+export class TokenRevokedError extends TokenVerificationError {
+  public jti: string;
+
+  constructor(message: string, jti: string) {
+    super(message, 'revoked');
+    this.name = 'TokenRevokedError';
+    this.jti = jti;
+  }
+}
+
+/**
+ * Decode a token without verifying its signature
+ *
+ * @param token JWT string
+ * @returns Decoded header and payload
+ */
+export function decodeToken(token: string): DecodedToken {
+  if (!token || typeof token !== 'string') {
+    throw new MalformedTokenError('Token is required and must be a string');
+  }
+
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded || typeof decoded.payload !== 'object' || decoded.payload === null) {
+    throw new MalformedTokenError('Token is not a valid JWT');
+  }
+
+  return {
+    header: decoded.header as TokenHeader,
+    payload: decoded.payload as TokenPayload,
+  };
+}
+
+/**
+ * Convert a jsonwebtoken verification error into a TokenVerificationError
+ *
+ * @param error Error thrown by jwt.verify
+ * @returns Matching token verification error
+ */
+export function toTokenVerificationError(error: unknown): TokenVerificationError {
+  if (error instanceof TokenVerificationError) {
+    return error;
+  }
+  if (error instanceof jwt.NotBeforeError) {
+    return new TokenNotYetValidError(`Token is not valid before ${error.date.toISOString()}`, error.date);
+  }
+  if (error instanceof jwt.TokenExpiredError) {
+    return new TokenExpiredError(`Token expired at ${error.expiredAt.toISOString()}`, error.expiredAt);
+  }
+  if (error instanceof jwt.JsonWebTokenError && error.message === 'invalid signature') {
+    return new InvalidTokenSignatureError('Token signature is invalid');
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new MalformedTokenError(`Token is malformed: ${message}`);
+}
+
+/**
+ * Check the ContactsManager claims of a signature-verified payload
+ *
+ * @param payload Verified token payload
+ * @param expected Organization and API key the token must belong to
+ * @param options Verification options
+ * @param now Current time in seconds
+ * @returns Typed token information
+ */
+export function checkTokenClaims(
+  payload: TokenPayload,
+  expected: { orgId: string; apiKey: string },
+  options: VerifyTokenOptions = {},
+  now: number = Math.floor(Date.now() / 1000)
+): VerifiedToken {
+  const { clockTolerance = 0, requireDevice = false, audience, issuer } = options;
+
+  if (payload.org_id !== expected.orgId) {
+    throw new WrongOrganizationError('Token was issued for a different organization');
+  }
+  if (payload.api_key !== expected.apiKey) {
+    throw new WrongOrganizationError('Token was issued for a different API key');
+  }
+  if (!payload.user_id || typeof payload.user_id !== 'string') {
+    throw new InvalidTokenClaimsError('Token is missing the user_id claim', 'user_id');
+  }
+  if (!payload.jti || typeof payload.jti !== 'string') {
+    throw new InvalidTokenClaimsError('Token is missing the jti claim', 'jti');
+  }
+  if (typeof payload.exp !== 'number') {
+    throw new InvalidTokenClaimsError('Token is missing the exp claim', 'exp');
+  }
+  if (typeof payload.iat !== 'number') {
+    throw new InvalidTokenClaimsError('Token is missing the iat claim', 'iat');
+  }
+  if (payload.iat > now + clockTolerance) {
+    throw new InvalidTokenClaimsError('Token was issued in the future', 'iat');
+  }
+  if (payload.iat > payload.exp) {
+    throw new InvalidTokenClaimsError('Token was issued after it expired', 'iat');
+  }
+
+  const device = payload.device && typeof payload.device === 'object' ? payload.device : {};
+  if (requireDevice && Object.keys(device).length === 0) {
+    throw new InvalidTokenClaimsError('Token is missing device information', 'device');
+  }
+
+  if (audience !== undefined) {
+    const expected = Array.isArray(audience) ? audience : [audience];
+    const actual = payload.aud === undefined ? [] : Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!actual.some(value => expected.includes(value))) {
+      throw new InvalidTokenClaimsError('Token audience does not match', 'aud');
+    }
+  }
+
+  if (issuer !== undefined) {
+    const expected = Array.isArray(issuer) ? issuer : [issuer];
+    if (payload.iss === undefined || !expected.includes(payload.iss)) {
+      throw new InvalidTokenClaimsError('Token issuer does not match', 'iss');
+    }
+  }
+
+  return {
+    principal: payload.principal === 'server' ? 'server' : 'user',
+    userId: payload.user_id,
+    deviceInfo: device,
+    jti: payload.jti,
+    issuedAt: new Date(payload.iat * 1000),
+    expiresAt: new Date(payload.exp * 1000),
+    notBefore: typeof payload.nbf === 'number' ? new Date(payload.nbf * 1000) : undefined,
+    audience: payload.aud,
+    issuer: payload.iss,
+    scopes: typeof payload.scope === 'string' ? payload.scope.split(' ').filter(Boolean) : [],
+    claims: extractCustomClaims(payload),
+    payload,
+  };
+}
+
+/**
+ * Get the custom claims of a payload, i.e. everything not set by the SDK
+ *
+ * @param payload Token payload
+ * @returns Custom claims
+ */
+export function extractCustomClaims(payload: TokenPayload): Record<string, any> {
+  const claims: Record<string, any> = {};
+  for (const [key, value] of Object.entries(payload)) {
+    if (!RESERVED_CLAIMS.includes(key)) {
+      claims[key] = value;
+    }
+  }
+  return claims;
+}
@@ -0,0 +1,271 @@
+/**
+ * Runtime-independent webhook verification and typed events for ContactsManager SDK
+ *
+ * This module must not import Node.js modules, directly or through other modules, so that
+ * edge bundles built from webhook-fetch stay free of them.
+ */
+
+import type { CMUser } from './server-api';
+
+// How far a webhook timestamp may be from the current time (15 minutes)
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 900;
+
+// Header carrying the webhook signature
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+// Largest webhook body accepted by the webhook handlers (1 MiB)
+export const DEFAULT_WEBHOOK_BODY_LIMIT_BYTES = 1024 * 1024;
+
+/**
+ * Reason a webhook failed verification
+ */
+export type WebhookSignatureErrorReason =
+  | 'missing_header'
+  | 'malformed_header'
+  | 'stale_timestamp'
+  | 'invalid_signature'
+  | 'malformed_payload'
+  | 'replayed';
+
+/**
+ * Error thrown when a webhook request cannot be verified or parsed
+ */
+export class WebhookSignatureError extends Error {
+  public reason: WebhookSignatureErrorReason;
+
+  constructor(message: string, reason: WebhookSignatureErrorReason) {
+    super(message);
+    this.name = 'WebhookSignatureError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Fields shared by all webhook events
+ */
+export interface WebhookEventBase {
+  id: string; // Unique event identifier
+  created: number; // Unix timestamp in seconds
+}
+
+/**
+ * Event sent when a user is created
+ */
+export interface UserCreatedEvent extends WebhookEventBase {
+  type: 'user.created';
+  data: { user: CMUser };
+}
+
+/**
+ * Event sent when a user is updated
+ */
+export interface UserUpdatedEvent extends WebhookEventBase {
+  type: 'user.updated';
+  data: { user: CMUser };
+}
+
+/**
+ * Event sent when a user is deleted
+ */
+export interface UserDeletedEvent extends WebhookEventBase {
+  type: 'user.deleted';
+  data: {
+    organization_user_id: string;
+    deleted_contact_id?: string;
+  };
+}
+
+/**
+ * Event sent when one of a user's contacts matches another user of the organization
+ */
+export interface ContactMatchedEvent extends WebhookEventBase {
+  type: 'contact.matched';
+  data: {
+    organization_user_id: string; // User whose contacts were matched
+    matched_organization_user_id: string; // User the contact matched
+    match_type: 'email' | 'phone';
+  };
+}
+
+/**
+ * Webhook event, discriminated by `type`
+ *
+ * Event types added after this SDK version are returned as well, so keep a default
+ * branch when switching on `type`.
+ */
+export type WebhookEvent = UserCreatedEvent | UserUpdatedEvent | UserDeletedEvent | ContactMatchedEvent;
+
+/**
+ * Webhook event type
+ */
+export type WebhookEventType = WebhookEvent['type'];
+
+/**
+ * Webhook event of a given type
+ */
+export type WebhookEventOfType<T extends WebhookEventType> = Extract<WebhookEvent, { type: T }>;
+
+/**
+ * Options for webhook verification
+ */
+export interface WebhookVerifyOptions {
+  toleranceSeconds?: number; // Allowed clock difference in seconds, in either direction (default: 900)
+  now?: () => number; // Current time in milliseconds (default: Date.now)
+}
+
+/**
+ * Interface for a parsed signature header
+ */
+export interface WebhookSignatureHeader {
+  timestamp: number; // Unix timestamp in seconds
+  signatures: string[]; // Every v1 signature; several are sent while the webhook secret is rotated
+}
+
+/**
+ * Parse a signature header of the form `t=<timestamp>,v1=<signature>[,v1=<signature>...]`
+ *
+ * Each entry is split on its first `=`, so values may contain `=` themselves.
+ * Entries with unknown keys are ignored.
+ *
+ * @param header Signature header value
+ * @returns Timestamp and signatures
+ */
+export function parseSignatureHeader(header: string | undefined): WebhookSignatureHeader {
+  if (!header || typeof header !== 'string') {
+    throw new WebhookSignatureError('Webhook signature header is missing', 'missing_header');
+  }
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    if (key === 't') {
+      timestamp = /^\d+$/.test(value) ? Number(value) : NaN;
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === undefined || !Number.isSafeInteger(timestamp) || signatures.length === 0) {
+    throw new WebhookSignatureError('Webhook signature header is malformed', 'malformed_header');
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Verify the signature of a raw webhook body with the Web Crypto API
+ *
+ * Performs the same checks as `verifyWebhookPayload` without Node's `crypto` module or
+ * `Buffer`, for edge and serverless runtimes.
+ *
+ * @param rawBody Raw request body, exactly as received
+ * @param header Signature header value
+ * @param secrets Webhook secret, or several while rotating secrets
+ * @param options Tolerance and clock
+ * @returns Promise with the parsed signature header
+ */
+export async function verifyWebhookPayloadAsync(
+  rawBody: string,
+  header: string | undefined,
+  secrets: string | string[],
+  options: WebhookVerifyOptions = {}
+): Promise<WebhookSignatureHeader> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('The Web Crypto API is not available in this runtime');
+  }
+
+  const { timestamp, signatures } = parseTimelySignatureHeader(header, options);
+
+  const encoder = new TextEncoder();
+  const signedPayload = encoder.encode(`${timestamp}.${rawBody}`);
+  const signatureBytes = signatures.map(hexToBytes).filter((bytes): bytes is Uint8Array => bytes !== null);
+
+  for (const secret of Array.isArray(secrets) ? secrets : [secrets]) {
+    const key = await subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+      'verify',
+    ]);
+    for (const signature of signatureBytes) {
+      // HMAC verification compares in constant time
+      if (await subtle.verify('HMAC', key, signature, signedPayload)) {
+        return { timestamp, signatures };
+      }
+    }
+  }
+
+  throw new WebhookSignatureError('Webhook signature does not match', 'invalid_signature');
+}
+
+/**
+ * Parse a signature header and check that its timestamp is within the tolerance window
+ *
+ * @param header Signature header value
+ * @param options Tolerance and clock
+ * @returns The parsed signature header
+ */
+export function parseTimelySignatureHeader(header: string | undefined, options: WebhookVerifyOptions): WebhookSignatureHeader {
+  const { toleranceSeconds = DEFAULT_WEBHOOK_TOLERANCE_SECONDS, now = Date.now } = options;
+  if (typeof toleranceSeconds !== 'number' || !(toleranceSeconds >= 0)) {
+    throw new Error('toleranceSeconds must be a non-negative number');
+  }
+
+  const parsed = parseSignatureHeader(header);
+
+  const currentTime = Math.floor(now() / 1000);
+  if (Math.abs(currentTime - parsed.timestamp) > toleranceSeconds) {
+    throw new WebhookSignatureError('Webhook timestamp is outside the tolerance window', 'stale_timestamp');
+  }
+
+  return parsed;
+}
+
+/**
+ * Decode a hex-encoded signature, or return null if it is not valid lower-case hex
+ *
+ * Upper-case hex is rejected, as verifyWebhookPayload compares the hex strings as they are.
+ */
+function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/.test(hex)) {
+    return null;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Parse a verified webhook body into an event
+ *
+ * @param rawBody Raw request body, as a string or UTF-8 bytes (e.g. a Buffer)
+ * @returns Webhook event
+ */
+export function parseWebhookEvent(rawBody: string | Uint8Array): WebhookEvent {
+  let event: any;
+  try {
+    event = JSON.parse(typeof rawBody === 'string' ? rawBody : new TextDecoder().decode(rawBody));
+  } catch (error) {
+    throw new WebhookSignatureError(`Webhook body is not valid JSON: ${(error as Error).message}`, 'malformed_payload');
+  }
+
+  if (
+    !event
+    || typeof event !== 'object'
+    || typeof event.id !== 'string'
+    || typeof event.type !== 'string'
+    || typeof event.created !== 'number'
+    || !event.data
+    || typeof event.data !== 'object'
+  ) {
+    throw new WebhookSignatureError('Webhook body is not a valid event', 'malformed_payload');
+  }
+
+  return event as WebhookEvent;
+}
@@ -0,0 +1,127 @@
+/**
+ * Webhook handling for Fetch API runtimes (edge functions, Workers, Next.js route handlers)
+ *
+ * Published as the `@contactsmanager/server/webhooks/fetch` entry point. Only import from
+ * ./webhook-core here: anything else pulls Node.js modules into edge bundles.
+ */
+
+import {
+  WebhookEvent,
+  WebhookEventOfType,
+  WebhookEventType,
+  WebhookSignatureError,
+  WebhookVerifyOptions,
+  WEBHOOK_SIGNATURE_HEADER,
+  DEFAULT_WEBHOOK_BODY_LIMIT_BYTES,
+  verifyWebhookPayloadAsync,
+  parseWebhookEvent,
+} from './webhook-core';
+
+// Event types and helpers, re-exported for code that only imports this entry point
+export {
+  DEFAULT_WEBHOOK_BODY_LIMIT_BYTES,
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookSignatureErrorReason,
+  WebhookSignatureError,
+  WebhookEventBase,
+  UserCreatedEvent,
+  UserUpdatedEvent,
+  UserDeletedEvent,
+  ContactMatchedEvent,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookEventOfType,
+  WebhookVerifyOptions,
+  parseWebhookEvent,
+} from './webhook-core';
+
+/**
+ * Handlers for webhook events, keyed by event type
+ */
+export type WebhookEventHandlers = {
+  [T in WebhookEventType]?: (event: WebhookEventOfType<T>, request: Request) => unknown | Promise<unknown>;
+};
+
+/**
+ * Interface for Fetch API webhook handler options
+ */
+export interface HandleWebhookRequestOptions extends WebhookVerifyOptions {
+  secret: string | string[]; // Webhook secret, or several while rotating it
+  handlers: WebhookEventHandlers; // Events without a handler are acknowledged and ignored
+  onError?: (error: unknown, event: WebhookEvent) => void; // Called when a handler fails, e.g. for logging
+  limit?: number; // Maximum body size in bytes (default: 1 MiB)
+}
+
+/**
+ * Verify a webhook request and dispatch its event to the handler for its type
+ *
+ * Uses only Fetch and Web Crypto APIs, so it runs on edge and serverless runtimes without
+ * Node's `Buffer`. Responses:
+ * - 200 once the handler has completed, or when there is no handler for the event type
+ * - 400 when the body is not a valid event
+ * - 401 when the signature header is missing or invalid, or stale
+ * - 413 when the body exceeds `limit`
+ * - 500 when the handler throws, so ContactsManager retries the delivery
+ *
+ * @param request Incoming webhook request
+ * @param options Secret, event handlers and verification options
+ * @returns Promise with the response to send
+ */
+export async function handleWebhookRequest(
+  request: Request,
+  options: HandleWebhookRequestOptions
+): Promise<Response> {
+  const { secret, handlers, onError, limit = DEFAULT_WEBHOOK_BODY_LIMIT_BYTES } = options;
+  if (!secret || (Array.isArray(secret) && secret.length === 0)) {
+    throw new Error('Webhook secret is required');
+  }
+  if (!handlers || typeof handlers !== 'object') {
+    throw new Error('handlers is required and must be an object');
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error('limit must be a positive integer');
+  }
+
+  if (Number(request.headers.get('content-length')) > limit) {
+    return jsonResponse(413, { error: 'body_too_large' });
+  }
+  const rawBody = await request.text();
+  if (new TextEncoder().encode(rawBody).length > limit) {
+    return jsonResponse(413, { error: 'body_too_large' });
+  }
+
+  let event: WebhookEvent;
+  try {
+    await verifyWebhookPayloadAsync(rawBody, request.headers.get(WEBHOOK_SIGNATURE_HEADER) ?? undefined, secret, {
+      toleranceSeconds: options.toleranceSeconds,
+      now: options.now,
+    });
+    event = parseWebhookEvent(rawBody);
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      return jsonResponse(error.reason === 'malformed_payload' ? 400 : 401, { error: error.reason });
+    }
+    throw error;
+  }
+
+  const handler = handlers[event.type] as ((event: WebhookEvent, request: Request) => unknown) | undefined;
+  try {
+    await handler?.(event, request);
+  } catch (error) {
+    onError?.(error, event);
+    return jsonResponse(500, { error: 'handler_failed' });
+  }
+
+  return jsonResponse(200, { received: true });
+}
+
+/**
+ * Create a JSON response
+ */
+function jsonResponse(status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
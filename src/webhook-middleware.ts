@@ -0,0 +1,202 @@
+/**
+ * Express/Connect middleware for ContactsManager webhook endpoints
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import type { ContactsManagerClient } from './index';
+import {
+  WebhookEvent,
+  WebhookSignatureError,
+  WebhookVerifyOptions,
+  WEBHOOK_SIGNATURE_HEADER,
+  verifyWebhookPayload,
+  parseWebhookEvent,
+} from './webhook';
+import { DEFAULT_WEBHOOK_BODY_LIMIT_BYTES } from './webhook-core';
+
+/**
+ * Request as seen by the middleware; body parsers may already have set `body` or `rawBody`
+ */
+export type WebhookRequest = IncomingMessage & { body?: unknown; rawBody?: unknown };
+
+/**
+ * Interface for webhook middleware options
+ *
+ * Provide either `client`, whose webhook secrets and tolerance are used, or `secret`.
+ */
+export interface WebhookMiddlewareOptions extends WebhookVerifyOptions {
+  client?: ContactsManagerClient;
+  secret?: string | string[]; // Webhook secret, or several while rotating it
+  onEvent: (event: WebhookEvent, req: WebhookRequest) => unknown | Promise<unknown>; // Called once verified
+  onError?: (error: unknown, event: WebhookEvent) => void; // Called when onEvent fails, e.g. for logging
+  replayProtection?: boolean; // Acknowledge replayed deliveries without calling onEvent (requires client)
+  limit?: number; // Maximum body size in bytes when reading the request stream (default: 1 MiB)
+}
+
+/**
+ * Error raised when the request body exceeds the size limit
+ */
+class WebhookBodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Webhook body exceeds ${limit} bytes`);
+    this.name = 'WebhookBodyTooLargeError';
+  }
+}
+
+/**
+ * Create middleware that verifies ContactsManager webhooks and passes typed events to `onEvent`
+ *
+ * Mount it before any JSON body parser, or behind `express.raw()`, so the body can be
+ * verified byte for byte. Responses:
+ * - 200 once `onEvent` has completed, or for a replayed delivery with `replayProtection`
+ * - 400 when the body is not a valid event
+ * - 401 when the signature header is missing or invalid, or stale
+ * - 413 when the body exceeds `limit`
+ * - 500 when `onEvent` throws, so ContactsManager retries the delivery; a delivery claimed
+ *   by `replayProtection` is released first so the retry is processed
+ *
+ * @param options Secret or client, event handler and verification options
+ * @returns Express/Connect middleware
+ */
+export function contactsManagerWebhook(
+  options: WebhookMiddlewareOptions
+): (req: WebhookRequest, res: ServerResponse, next?: (error?: unknown) => void) => Promise<void> {
+  const {
+    client,
+    secret,
+    onEvent,
+    onError,
+    replayProtection = false,
+    limit = DEFAULT_WEBHOOK_BODY_LIMIT_BYTES,
+  } = options;
+
+  if (!client === !secret) {
+    throw new Error('Specify either client or secret');
+  }
+  if (typeof onEvent !== 'function') {
+    throw new Error('onEvent is required and must be a function');
+  }
+  if (replayProtection && !client) {
+    throw new Error('replayProtection requires a client');
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error('limit must be a positive integer');
+  }
+
+  // Only pass options that were set, so the client's own webhook tolerance still applies
+  const verifyOptions: WebhookVerifyOptions = {};
+  if (options.toleranceSeconds !== undefined) {
+    verifyOptions.toleranceSeconds = options.toleranceSeconds;
+  }
+  if (options.now !== undefined) {
+    verifyOptions.now = options.now;
+  }
+  // Returns the delivery key when replay protection claimed the delivery
+  const verify = async (
+    rawBody: string | Buffer,
+    header: string | undefined
+  ): Promise<{ event: WebhookEvent; key?: string }> => {
+    if (client) {
+      return replayProtection
+        ? client.receiveWebhookDelivery(rawBody, header, verifyOptions)
+        : { event: client.constructWebhookEvent(rawBody, header, verifyOptions) };
+    }
+    verifyWebhookPayload(rawBody, header, secret as string | string[], verifyOptions);
+    return { event: parseWebhookEvent(rawBody) };
+  };
+
+  return async (req, res, next) => {
+    // Unexpected failures go to the framework's error handler when there is one
+    const fail = (error: unknown): void => {
+      if (next) {
+        next(error);
+      } else {
+        sendJson(res, 500, { error: 'internal_error' });
+      }
+    };
+
+    let rawBody: string | Buffer;
+    try {
+      rawBody = await readRawBody(req, limit);
+    } catch (error) {
+      if (error instanceof WebhookBodyTooLargeError) {
+        sendJson(res, 413, { error: 'body_too_large' });
+      } else {
+        fail(error);
+      }
+      return;
+    }
+
+    const header = req.headers[WEBHOOK_SIGNATURE_HEADER];
+    let event: WebhookEvent;
+    let key: string | undefined;
+    try {
+      ({ event, key } = await verify(rawBody, Array.isArray(header) ? header.join(',') : header));
+    } catch (error) {
+      if (error instanceof WebhookSignatureError && error.reason === 'replayed') {
+        // Already received, e.g. a retry after our response was lost
+        sendJson(res, 200, { received: true, duplicate: true });
+      } else if (error instanceof WebhookSignatureError) {
+        sendJson(res, error.reason === 'malformed_payload' ? 400 : 401, { error: error.reason });
+      } else {
+        fail(error);
+      }
+      return;
+    }
+
+    try {
+      await onEvent(event, req);
+    } catch (error) {
+      onError?.(error, event);
+      if (client && key !== undefined) {
+        // Let the retry this 500 asks for through replay protection
+        try {
+          await client.releaseWebhookDelivery(key);
+        } catch (releaseError) {
+          onError?.(releaseError, event);
+        }
+      }
+      sendJson(res, 500, { error: 'handler_failed' });
+      return;
+    }
+
+    sendJson(res, 200, { received: true });
+  };
+}
+
+/**
+ * Get the raw request body, reading the stream unless a body parser already kept it raw
+ */
+async function readRawBody(req: WebhookRequest, limit: number): Promise<string | Buffer> {
+  for (const candidate of [req.rawBody, req.body]) {
+    if (typeof candidate === 'string' || Buffer.isBuffer(candidate)) {
+      return candidate;
+    }
+  }
+  if (req.body !== undefined || req.readableEnded) {
+    throw new Error(
+      'Webhook body was already parsed; mount the webhook middleware before JSON body parsers or use express.raw()'
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > limit) {
+      throw new WebhookBodyTooLargeError(limit);
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.statusCode = status;
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,286 @@
+/**
+ * Routing of verified webhook events to handlers registered per event type
+ */
+
+import type { ContactsManagerClient } from './index';
+import { WebhookEvent, WebhookEventOfType, WebhookEventType, WebhookVerifyOptions } from './webhook';
+
+/**
+ * Context passed to webhook route handlers
+ */
+export interface WebhookHandlerContext {
+  signal: AbortSignal; // Aborted when the handler times out
+}
+
+/**
+ * Handler for routed webhook events
+ */
+export type WebhookRouteHandler<E extends WebhookEvent = WebhookEvent> = (
+  event: E,
+  context: WebhookHandlerContext
+) => unknown | Promise<unknown>;
+
+/**
+ * Interface for options of a single route handler
+ */
+export interface WebhookRouteOptions {
+  name?: string; // Name reported in dispatch results (default: the function name, or the route)
+  timeoutMs?: number; // Overrides the router's handler timeout
+}
+
+/**
+ * Interface for webhook router options
+ */
+export interface WebhookRouterOptions {
+  client?: ContactsManagerClient; // Client used by receive() to verify requests
+  timeoutMs?: number; // Time each handler may take before it is reported as timed out (default: no limit)
+}
+
+/**
+ * Interface for the outcome of one handler during a dispatch
+ */
+export interface WebhookHandlerOutcome {
+  route: string; // Event type, '*' for wildcard handlers or 'fallback'
+  name: string;
+  status: 'succeeded' | 'failed' | 'timed_out';
+  error?: unknown; // Error thrown by the handler, or a WebhookHandlerTimeoutError
+  durationMs: number;
+}
+
+/**
+ * Interface for the result of dispatching an event
+ */
+export interface WebhookDispatchResult {
+  event: WebhookEvent;
+  handled: boolean; // True if at least one handler ran
+  ok: boolean; // True if no handler failed or timed out
+  outcomes: WebhookHandlerOutcome[]; // In registration order
+}
+
+/**
+ * Error reported when a webhook handler does not complete within its timeout
+ */
+export class WebhookHandlerTimeoutError extends Error {
+  public timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message);
+    this.name = 'WebhookHandlerTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error thrown by a router's event handler when one or more handlers failed
+ */
+export class WebhookDispatchError extends Error {
+  public result: WebhookDispatchResult;
+
+  constructor(message: string, result: WebhookDispatchResult) {
+    super(message);
+    this.name = 'WebhookDispatchError';
+    this.result = result;
+  }
+}
+
+interface WebhookRoute {
+  route: string;
+  name: string;
+  handler: WebhookRouteHandler<any>;
+  timeoutMs?: number;
+}
+
+/**
+ * Dispatches webhook events to the handlers registered for their type
+ *
+ * For each event, the handlers registered for its type run, or the fallback handlers if
+ * there are none (e.g. for event types added after this SDK version), and then every
+ * wildcard handler. Handlers run concurrently and independently: a handler that throws or
+ * times out is reported in the result without affecting the others.
+ */
+export class WebhookRouter {
+  private routes: WebhookRoute[] = [];
+  private client?: ContactsManagerClient;
+  private timeoutMs?: number;
+
+  constructor(options: WebhookRouterOptions = {}) {
+    validateTimeout(options.timeoutMs);
+    this.client = options.client;
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  /**
+   * Register a handler for an event type, or for every event with '*'
+   *
+   * @param type Event type, or '*'
+   * @param handler Event handler
+   * @param options Optional name and timeout
+   * @returns The router, for chaining
+   */
+  public on<T extends WebhookEventType>(
+    type: T,
+    handler: WebhookRouteHandler<WebhookEventOfType<T>>,
+    options?: WebhookRouteOptions
+  ): this;
+  public on(type: '*', handler: WebhookRouteHandler, options?: WebhookRouteOptions): this;
+  public on(type: string, handler: WebhookRouteHandler<any>, options: WebhookRouteOptions = {}): this {
+    if (!type || typeof type !== 'string') {
+      throw new Error('Event type is required and must be a string');
+    }
+    return this.addRoute(type, handler, options);
+  }
+
+  /**
+   * Register a handler for events that have no handler for their type
+   *
+   * @param handler Event handler
+   * @param options Optional name and timeout
+   * @returns The router, for chaining
+   */
+  public fallback(handler: WebhookRouteHandler, options: WebhookRouteOptions = {}): this {
+    return this.addRoute('fallback', handler, options);
+  }
+
+  /**
+   * Run the handlers for a verified event
+   *
+   * Never throws; check `ok` and `outcomes` in the result.
+   *
+   * @param event Verified webhook event
+   * @returns Promise with the outcome of every handler that ran
+   */
+  public async dispatch(event: WebhookEvent): Promise<WebhookDispatchResult> {
+    let selected = this.routes.filter(route => route.route === event.type);
+    if (selected.length === 0) {
+      selected = this.routes.filter(route => route.route === 'fallback');
+    }
+    selected = selected.concat(this.routes.filter(route => route.route === '*'));
+
+    const outcomes = await Promise.all(selected.map(route => this.runRoute(route, event)));
+    return {
+      event,
+      handled: outcomes.length > 0,
+      ok: outcomes.every(outcome => outcome.status === 'succeeded'),
+      outcomes,
+    };
+  }
+
+  /**
+   * Verify a webhook request with the router's client, rejecting replays, and dispatch its event
+   *
+   * When a handler fails, the delivery is released so that a retry of the same request is
+   * dispatched again rather than rejected as a replay.
+   *
+   * @param rawBody Raw request body, exactly as received
+   * @param signatureHeader The X-Webhook-Signature header value
+   * @param options Optional tolerance and clock overrides
+   * @returns Promise with the dispatch result
+   * @throws WebhookSignatureError if the request cannot be verified
+   */
+  public async receive(
+    rawBody: string | Buffer,
+    signatureHeader: string | undefined,
+    options: WebhookVerifyOptions = {}
+  ): Promise<WebhookDispatchResult> {
+    if (!this.client) {
+      throw new Error('receive() requires a router created with a client');
+    }
+    const { event, key } = await this.client.receiveWebhookDelivery(rawBody, signatureHeader, options);
+    const result = await this.dispatch(event);
+    if (!result.ok) {
+      await this.client.releaseWebhookDelivery(key);
+    }
+    return result;
+  }
+
+  /**
+   * Get an event handler for contactsManagerWebhook's `onEvent`
+   *
+   * The handler throws a WebhookDispatchError when a handler failed, so the request is
+   * answered with a 500 and ContactsManager retries the delivery.
+   *
+   * @returns Event handler
+   */
+  public asEventHandler(): (event: WebhookEvent) => Promise<WebhookDispatchResult> {
+    return async (event: WebhookEvent) => {
+      const result = await this.dispatch(event);
+      if (!result.ok) {
+        const failed = result.outcomes.filter(outcome => outcome.status !== 'succeeded').map(outcome => outcome.name);
+        throw new WebhookDispatchError(`Webhook handlers failed for event ${event.id}: ${failed.join(', ')}`, result);
+      }
+      return result;
+    };
+  }
+
+  /**
+   * Validate and record a route
+   */
+  private addRoute(route: string, handler: WebhookRouteHandler<any>, options: WebhookRouteOptions): this {
+    if (typeof handler !== 'function') {
+      throw new Error('Webhook handler must be a function');
+    }
+    validateTimeout(options.timeoutMs);
+
+    this.routes.push({
+      route,
+      name: options.name || handler.name || route,
+      handler,
+      timeoutMs: options.timeoutMs ?? this.timeoutMs,
+    });
+    return this;
+  }
+
+  /**
+   * Run one handler, bounded by its timeout, and describe how it ended
+   */
+  private async runRoute(route: WebhookRoute, event: WebhookEvent): Promise<WebhookHandlerOutcome> {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    const outcome = (status: WebhookHandlerOutcome['status'], error?: unknown): WebhookHandlerOutcome => ({
+      route: route.route,
+      name: route.name,
+      status,
+      ...(error !== undefined ? { error } : {}),
+      durationMs: Date.now() - startedAt,
+    });
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const run = Promise.resolve().then(() => route.handler(event, { signal: controller.signal }));
+      if (route.timeoutMs === undefined) {
+        await run;
+      } else {
+        // A handler that keeps running after its timeout must not cause an unhandled rejection
+        run.catch(() => undefined);
+        const timeoutMs = route.timeoutMs;
+        await Promise.race([
+          run,
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+              timedOut = true;
+              controller.abort();
+              reject(
+                new WebhookHandlerTimeoutError(`Webhook handler ${route.name} timed out after ${timeoutMs}ms`, timeoutMs)
+              );
+            }, timeoutMs);
+          }),
+        ]);
+      }
+      return outcome('succeeded');
+    } catch (error) {
+      return outcome(timedOut ? 'timed_out' : 'failed', error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Check a handler timeout
+ */
+function validateTimeout(timeoutMs: number | undefined): void {
+  if (timeoutMs !== undefined && (typeof timeoutMs !== 'number' || !(timeoutMs > 0))) {
+    throw new Error('timeoutMs must be a positive number');
+  }
+}
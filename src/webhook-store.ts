@@ -0,0 +1,127 @@
+/**
+ * Seen-event storage for webhook replay protection and idempotent processing
+ */
+
+import { WebhookEvent } from './webhook';
+
+// How long processed event ids are remembered by idempotent handlers (24 hours)
+export const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 86400;
+
+/**
+ * Storage backend for webhook deliveries and events that have been seen
+ *
+ * `add` must be atomic: when called concurrently with the same key, exactly one call returns
+ * true, and until `expiresAt` or a `delete` every later call returns false. With Redis, use
+ * `SET key 1 NX PXAT <expiresAt>`; with SQL, insert into a table with a unique key and treat
+ * a conflict as "already present".
+ */
+export interface WebhookEventStore {
+  /**
+   * Record a key unless it is already present
+   *
+   * @param key Delivery or event key
+   * @param expiresAt When the entry may be dropped
+   * @returns True if the key was recorded, false if it was already present
+   */
+  add(key: string, expiresAt: Date): Promise<boolean>;
+
+  /**
+   * Remove a key, so that a failed event can be processed again
+   *
+   * @param key Delivery or event key
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory seen-event store, used by default
+ */
+export class InMemoryWebhookEventStore implements WebhookEventStore {
+  private entries = new Map<string, number>();
+
+  async add(key: string, expiresAt: Date): Promise<boolean> {
+    const existing = this.entries.get(key);
+    if (existing !== undefined && existing > Date.now()) {
+      return false;
+    }
+    this.prune();
+    this.entries.set(key, expiresAt.getTime());
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove expired entries
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Interface for a webhook delivery claimed by receiveWebhookDelivery
+ */
+export interface WebhookDelivery {
+  event: WebhookEvent;
+  key: string; // Store key of the delivery; release it if processing fails
+}
+
+/**
+ * Interface for idempotent handler options
+ */
+export interface IdempotentHandlerOptions {
+  ttlSeconds?: number; // How long a processed event id is remembered (default: 24 hours)
+}
+
+/**
+ * Interface for the outcome of an idempotent handler call
+ */
+export interface IdempotentHandlerResult<T> {
+  duplicate: boolean; // True if the event was already processed or is being processed
+  result?: T; // Value returned by the handler when it ran
+}
+
+/**
+ * Wrap an event handler so that it runs at most once per event id
+ *
+ * The event id is claimed before the handler runs, so concurrent deliveries of the same
+ * event are skipped. If the handler throws, the claim is released and the error rethrown,
+ * so a redelivery can process the event again.
+ *
+ * @param store Store recording processed event ids
+ * @param handler Event handler
+ * @param options Optional retention of processed event ids
+ * @returns Wrapped handler
+ */
+export function createIdempotentHandler<T>(
+  store: WebhookEventStore,
+  handler: (event: WebhookEvent) => T | Promise<T>,
+  options: IdempotentHandlerOptions = {}
+): (event: WebhookEvent) => Promise<IdempotentHandlerResult<T>> {
+  const { ttlSeconds = DEFAULT_IDEMPOTENCY_TTL_SECONDS } = options;
+  if (typeof ttlSeconds !== 'number' || !(ttlSeconds > 0)) {
+    throw new Error('ttlSeconds must be a positive number');
+  }
+
+  return async (event: WebhookEvent) => {
+    const key = `event:${event.id}`;
+    if (!(await store.add(key, new Date(Date.now() + ttlSeconds * 1000)))) {
+      return { duplicate: true };
+    }
+
+    try {
+      return { duplicate: false, result: await handler(event) };
+    } catch (error) {
+      await store.delete(key);
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,891 @@
+/// <reference types="jest" />
+import crypto from 'crypto';
+import { ServerResponse } from 'http';
+import { Readable } from 'stream';
+import {
+  ContactsManagerClient,
+  WebhookEvent,
+  WebhookSignatureError,
+  WebhookEventStore,
+  InMemoryWebhookEventStore,
+  signWebhookPayload,
+  createTestWebhookRequest,
+  contactsManagerWebhook,
+  WebhookRequest,
+  handleWebhookRequest,
+  WebhookRouter,
+  WebhookHandlerTimeoutError,
+  WebhookDispatchError
+} from './index';
+
+// These tests sign and verify real webhook payloads, so crypto is not mocked here
+describe('Webhooks', () => {
+  const webhookSecret = 'test-webhook-secret';
+  const mockClientConfig = {
+    apiKey: 'test-api-key',
+    apiSecret: 'test-api-secret',
+    orgId: 'test-org-id'
+  };
+  const client = new ContactsManagerClient(mockClientConfig);
+  client.setWebhookSecret(webhookSecret);
+
+  const sign = (body: string, timestamp: number = Math.floor(Date.now() / 1000), secret: string = webhookSecret) => {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+  };
+
+  const userCreated = {
+    id: 'evt_123',
+    type: 'user.created',
+    created: 1609459200,
+    data: {
+      user: { id: 'contact-123', organization_id: 'test-org-id', organization_user_id: 'user-123', is_active: true }
+    }
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('constructWebhookEvent', () => {
+    it('should verify and parse a typed event', () => {
+      const body = JSON.stringify(userCreated);
+
+      const event = client.constructWebhookEvent(body, sign(body));
+
+      expect(event).toEqual(userCreated);
+      if (event.type === 'user.created') {
+        expect(event.data.user.organization_user_id).toBe('user-123');
+      }
+    });
+
+    it('should accept Buffer bodies', () => {
+      const userDeleted = { ...userCreated, type: 'user.deleted', data: { organization_user_id: 'user-123' } };
+      const body = Buffer.from(JSON.stringify(userDeleted));
+
+      const event: WebhookEvent = client.constructWebhookEvent(body, sign(body.toString()));
+
+      expect(event.type).toBe('user.deleted');
+    });
+
+    it.each([
+      ['missing_header', undefined],
+      ['missing_header', ''],
+      ['malformed_header', 'garbage'],
+      ['malformed_header', 't=abc,v1=deadbeef'],
+      ['malformed_header', 't=1609459200'],
+    ])('should reject with %s for header %p', (reason, header) => {
+      const error = (() => {
+        try {
+          client.constructWebhookEvent(JSON.stringify(userCreated), header);
+        } catch (e) {
+          return e as WebhookSignatureError;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(WebhookSignatureError);
+      expect(error?.reason).toBe(reason);
+    });
+
+    it('should reject stale timestamps', () => {
+      const body = JSON.stringify(userCreated);
+      const header = sign(body, Math.floor(Date.now() / 1000) - 901);
+
+      expect(() => client.constructWebhookEvent(body, header)).toThrow(
+        expect.objectContaining({ reason: 'stale_timestamp' })
+      );
+    });
+
+    it('should reject bad signatures without throwing on length mismatch', () => {
+      const body = JSON.stringify(userCreated);
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      expect(() => client.constructWebhookEvent(body, sign(body, timestamp, 'other-secret'))).toThrow(
+        expect.objectContaining({ reason: 'invalid_signature' })
+      );
+      expect(() => client.constructWebhookEvent(body, `t=${timestamp},v1=short`)).toThrow(
+        expect.objectContaining({ reason: 'invalid_signature' })
+      );
+      expect(() => client.constructWebhookEvent(`${body} `, sign(body, timestamp))).toThrow(
+        expect.objectContaining({ reason: 'invalid_signature' })
+      );
+    });
+
+    it('should reject bodies that are not valid events', () => {
+      const notJson = '{"id":';
+      expect(() => client.constructWebhookEvent(notJson, sign(notJson))).toThrow(
+        expect.objectContaining({ reason: 'malformed_payload' })
+      );
+
+      const notEvent = JSON.stringify({ id: 'evt_123' });
+      expect(() => client.constructWebhookEvent(notEvent, sign(notEvent))).toThrow(
+        expect.objectContaining({ reason: 'malformed_payload' })
+      );
+
+      expect(() => client.constructWebhookEvent(userCreated as any, sign(JSON.stringify(userCreated)))).toThrow(
+        'Webhook body must be the raw string or Buffer, not a parsed object'
+      );
+    });
+
+    it('should require a webhook secret', () => {
+      const withoutSecret = new ContactsManagerClient(mockClientConfig);
+
+      expect(() => withoutSecret.constructWebhookEvent('{}', 't=1,v1=a')).toThrow('Webhook secret not set');
+    });
+  });
+
+  describe('signature verification', () => {
+    const body = JSON.stringify(userCreated);
+    const timestamp = 1609459200;
+    const now = () => timestamp * 1000;
+
+    const signature = (secret: string) =>
+      crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+    it('should accept any of several v1 signatures', () => {
+      const header = `t=${timestamp},v1=${signature('old-secret')},v1=${signature(webhookSecret)}`;
+
+      expect(client.constructWebhookEvent(body, header, { now })).toEqual(userCreated);
+      expect(client.verifyWebhookSignature(body, header, { now })).toBe(true);
+    });
+
+    it('should accept signatures from any configured secret', () => {
+      const rotating = new ContactsManagerClient({ ...mockClientConfig, webhookSecret: ['new-secret', webhookSecret] });
+
+      expect(rotating.verifyWebhookSignature(body, `t=${timestamp},v1=${signature(webhookSecret)}`, { now })).toBe(true);
+      expect(rotating.verifyWebhookSignature(body, `t=${timestamp},v1=${signature('new-secret')}`, { now })).toBe(true);
+      expect(rotating.verifyWebhookSignature(body, `t=${timestamp},v1=${signature('other')}`, { now })).toBe(false);
+    });
+
+    it('should apply the tolerance in both directions', () => {
+      const header = `t=${timestamp},v1=${signature(webhookSecret)}`;
+
+      expect(client.verifyWebhookSignature(body, header, { now: () => (timestamp + 900) * 1000 })).toBe(true);
+      expect(client.verifyWebhookSignature(body, header, { now: () => (timestamp - 900) * 1000 })).toBe(true);
+      expect(() => client.constructWebhookEvent(body, header, { now: () => (timestamp - 901) * 1000 })).toThrow(
+        expect.objectContaining({ reason: 'stale_timestamp' })
+      );
+      expect(client.verifyWebhookSignature(body, header, { now: () => (timestamp + 901) * 1000 })).toBe(false);
+    });
+
+    it('should use a configurable tolerance', () => {
+      const strict = new ContactsManagerClient({ ...mockClientConfig, webhookSecret, webhookToleranceSeconds: 60 });
+      const header = `t=${timestamp},v1=${signature(webhookSecret)}`;
+
+      expect(strict.verifyWebhookSignature(body, header, { now: () => (timestamp + 60) * 1000 })).toBe(true);
+      expect(strict.verifyWebhookSignature(body, header, { now: () => (timestamp + 61) * 1000 })).toBe(false);
+      expect(
+        strict.verifyWebhookSignature(body, header, { now: () => (timestamp + 61) * 1000, toleranceSeconds: 120 })
+      ).toBe(true);
+      expect(
+        () => new ContactsManagerClient({ ...mockClientConfig, webhookToleranceSeconds: -1 })
+      ).toThrow('webhookToleranceSeconds must be a non-negative number');
+    });
+
+    it('should verify raw Buffer bodies byte for byte', () => {
+      const raw = Buffer.from('{"id":"evt_123",  "type":"user.created","created":1609459200,"data":{}}');
+      const rawSignature = crypto
+        .createHmac('sha256', webhookSecret)
+        .update(Buffer.concat([Buffer.from(`${timestamp}.`), raw]))
+        .digest('hex');
+      const header = `t=${timestamp},v1=${rawSignature}`;
+
+      expect(client.verifyWebhookSignature(raw, header, { now })).toBe(true);
+      // Re-serializing the parsed body drops the extra whitespace and no longer matches
+      expect(client.verifyWebhookSignature(JSON.parse(raw.toString()), header, { now })).toBe(false);
+    });
+
+    it('should split header entries on the first "=" only', () => {
+      const header = `t=${timestamp},v0=c2lnbmF0dXJl==,v1=${signature(webhookSecret)}`;
+
+      expect(client.verifyWebhookSignature(body, header, { now })).toBe(true);
+      expect(client.verifyWebhookSignature(body, `t=${timestamp},v1=${signature(webhookSecret)}=`, { now })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('replay protection', () => {
+    const body = JSON.stringify(userCreated);
+
+    it('should reject a replayed delivery but accept redeliveries with a new timestamp', async () => {
+      const receiver = new ContactsManagerClient({ ...mockClientConfig, webhookSecret });
+      const timestamp = Math.floor(Date.now() / 1000);
+      const header = sign(body, timestamp);
+
+      await expect(receiver.receiveWebhookEvent(body, header)).resolves.toEqual(userCreated);
+
+      const error = await receiver.receiveWebhookEvent(body, header).catch(e => e);
+      expect(error).toBeInstanceOf(WebhookSignatureError);
+      expect(error.reason).toBe('replayed');
+
+      await expect(receiver.receiveWebhookEvent(body, sign(body, timestamp + 1))).resolves.toEqual(userCreated);
+    });
+
+    it('should accept a released delivery again', async () => {
+      const receiver = new ContactsManagerClient({ ...mockClientConfig, webhookSecret });
+      const timestamp = Math.floor(Date.now() / 1000);
+      const header = sign(body, timestamp);
+
+      const delivery = await receiver.receiveWebhookDelivery(body, header);
+      expect(delivery).toEqual({ event: userCreated, key: `delivery:evt_123:${timestamp}` });
+      await expect(receiver.receiveWebhookEvent(body, header)).rejects.toHaveProperty('reason', 'replayed');
+
+      await receiver.releaseWebhookDelivery(delivery.key);
+
+      await expect(receiver.receiveWebhookEvent(body, header)).resolves.toEqual(userCreated);
+    });
+
+    it('should not record requests that fail verification', async () => {
+      const receiver = new ContactsManagerClient({ ...mockClientConfig, webhookSecret });
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      await expect(receiver.receiveWebhookEvent(body, sign(body, timestamp, 'other-secret'))).rejects.toHaveProperty(
+        'reason',
+        'invalid_signature'
+      );
+      await expect(receiver.receiveWebhookEvent(body, sign(body, timestamp))).resolves.toEqual(userCreated);
+    });
+
+    it('should keep deliveries until they leave the tolerance window', async () => {
+      const store = new InMemoryWebhookEventStore();
+      const add = jest.spyOn(store, 'add');
+      const receiver = new ContactsManagerClient({
+        ...mockClientConfig,
+        webhookSecret,
+        webhookToleranceSeconds: 60,
+        webhookEventStore: store
+      });
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      await receiver.receiveWebhookEvent(body, sign(body, timestamp));
+
+      expect(add).toHaveBeenCalledWith(`delivery:evt_123:${timestamp}`, new Date((timestamp + 61) * 1000));
+    });
+
+    it('should use a custom event store', async () => {
+      const seen = new Set<string>();
+      const store: WebhookEventStore = {
+        add: jest.fn(async (key: string) => !seen.has(key) && Boolean(seen.add(key))),
+        delete: jest.fn(async (key: string) => {
+          seen.delete(key);
+        })
+      };
+      const receiver = new ContactsManagerClient({ ...mockClientConfig, webhookSecret, webhookEventStore: store });
+      const header = sign(body);
+
+      await receiver.receiveWebhookEvent(body, header);
+      await expect(receiver.receiveWebhookEvent(body, header)).rejects.toHaveProperty('reason', 'replayed');
+      expect(store.add).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('idempotentWebhookHandler', () => {
+    const event = userCreated as WebhookEvent;
+
+    it('should run the handler once per event id', async () => {
+      const handler = jest.fn(async (received: WebhookEvent) => received.id);
+      const handle = client.idempotentWebhookHandler(handler);
+
+      await expect(handle(event)).resolves.toEqual({ duplicate: false, result: 'evt_123' });
+      await expect(handle(event)).resolves.toEqual({ duplicate: true });
+      await expect(handle({ ...event, id: 'evt_456' })).resolves.toEqual({ duplicate: false, result: 'evt_456' });
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip concurrent deliveries of the same event', async () => {
+      let release: () => void = () => undefined;
+      const handler = jest.fn(() => new Promise<void>(resolve => {
+        release = resolve;
+      }));
+      const handle = client.idempotentWebhookHandler(handler);
+      const concurrentEvent = { ...event, id: 'evt_concurrent' };
+
+      const first = handle(concurrentEvent);
+      await expect(handle(concurrentEvent)).resolves.toEqual({ duplicate: true });
+      release();
+      await expect(first).resolves.toEqual({ duplicate: false, result: undefined });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let a failed event be processed again', async () => {
+      const handler = jest.fn()
+        .mockRejectedValueOnce(new Error('database down'))
+        .mockResolvedValueOnce('ok');
+      const handle = client.idempotentWebhookHandler(handler);
+      const failingEvent = { ...event, id: 'evt_failing' };
+
+      await expect(handle(failingEvent)).rejects.toThrow('database down');
+      await expect(handle(failingEvent)).resolves.toEqual({ duplicate: false, result: 'ok' });
+      await expect(handle(failingEvent)).resolves.toEqual({ duplicate: true });
+    });
+
+    it('should forget processed events after the ttl', async () => {
+      const handler = jest.fn();
+      const handle = client.idempotentWebhookHandler(handler, { ttlSeconds: 60 });
+      const expiringEvent = { ...event, id: 'evt_expiring' };
+      const now = Date.now();
+
+      await handle(expiringEvent);
+      jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000);
+      await handle(expiringEvent);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(() => client.idempotentWebhookHandler(handler, { ttlSeconds: 0 })).toThrow(
+        'ttlSeconds must be a positive number'
+      );
+    });
+  });
+
+  describe('signing utilities', () => {
+    it('should sign payloads the way the verifier expects', () => {
+      const body = JSON.stringify(userCreated);
+      const header = signWebhookPayload(body, webhookSecret, { timestamp: 1609459200 });
+
+      expect(header).toBe(sign(body, 1609459200));
+      expect(client.constructWebhookEvent(body, header, { now: () => 1609459200 * 1000 })).toEqual(userCreated);
+    });
+
+    it('should accept Date timestamps, Buffers and objects', () => {
+      const timestamp = new Date(1609459200500);
+      const body = JSON.stringify(userCreated);
+
+      expect(signWebhookPayload(Buffer.from(body), webhookSecret, { timestamp })).toBe(sign(body, 1609459200));
+      expect(signWebhookPayload(userCreated, webhookSecret, { timestamp })).toBe(sign(body, 1609459200));
+      expect(signWebhookPayload(body, webhookSecret)).toBe(sign(body));
+    });
+
+    it('should validate its arguments', () => {
+      expect(() => signWebhookPayload('{}', '')).toThrow('Webhook secret is required and must be a string');
+      expect(() => signWebhookPayload('{}', webhookSecret, { timestamp: 1.5 })).toThrow(
+        'timestamp must be a Date or a non-negative integer number of seconds'
+      );
+    });
+
+    it('should create signed test requests with typed events', () => {
+      const request = createTestWebhookRequest(
+        'user.deleted',
+        { organization_user_id: 'user-123' },
+        { secret: webhookSecret, id: 'evt_test', timestamp: 1609459200 }
+      );
+
+      expect(request.event).toEqual({
+        id: 'evt_test',
+        type: 'user.deleted',
+        created: 1609459200,
+        data: { organization_user_id: 'user-123' }
+      });
+      expect(request.body).toBe(JSON.stringify(request.event));
+      expect(request.headers).toEqual({
+        'content-type': 'application/json',
+        'x-webhook-signature': sign(request.body, 1609459200)
+      });
+    });
+
+    it('should create test requests that the client accepts', async () => {
+      const receiver = new ContactsManagerClient({ ...mockClientConfig, webhookSecret: ['new-secret', webhookSecret] });
+
+      const request = receiver.createTestWebhookRequest('contact.matched', {
+        organization_user_id: 'user-123',
+        matched_organization_user_id: 'user-456',
+        match_type: 'email'
+      });
+
+      expect(request.event.id).toMatch(/^evt_[0-9a-f]{32}$/);
+      await expect(
+        receiver.receiveWebhookEvent(request.body, request.headers['x-webhook-signature'])
+      ).resolves.toEqual(request.event);
+      expect(
+        receiver.verifyWebhookSignature(request.body, request.headers['x-webhook-signature'])
+      ).toBe(true);
+    });
+  });
+
+  describe('contactsManagerWebhook', () => {
+    const mockRequest = (body: string, headers: Record<string, string | string[]> = {}, extra: object = {}) =>
+      Object.assign(Readable.from([Buffer.from(body)]), { headers }, extra) as unknown as WebhookRequest;
+
+    const mockResponse = () => {
+      const res = {
+        statusCode: 200,
+        headers: {} as Record<string, string>,
+        body: undefined as unknown,
+        setHeader: jest.fn((name: string, value: string) => {
+          res.headers[name] = value;
+        }),
+        end: jest.fn((body: string) => {
+          res.body = JSON.parse(body);
+        })
+      };
+      return res;
+    };
+
+    const run = async (
+      middleware: ReturnType<typeof contactsManagerWebhook>,
+      req: WebhookRequest,
+      next?: (error?: unknown) => void
+    ) => {
+      const res = mockResponse();
+      await middleware(req, res as unknown as ServerResponse, next);
+      return res;
+    };
+
+    it('should read the raw body, verify it and pass the typed event to onEvent', async () => {
+      const onEvent = jest.fn();
+      const body = JSON.stringify(userCreated);
+      const req = mockRequest(body, { 'x-webhook-signature': sign(body) });
+
+      const res = await run(contactsManagerWebhook({ secret: webhookSecret, onEvent }), req);
+
+      expect(onEvent).toHaveBeenCalledWith(userCreated, req);
+      expect(res.statusCode).toBe(200);
+      expect(res.headers['content-type']).toBe('application/json');
+      expect(res.body).toEqual({ received: true });
+    });
+
+    it('should use the client secrets and a body kept raw by a body parser', async () => {
+      const onEvent = jest.fn();
+      const body = JSON.stringify(userCreated);
+      const req = mockRequest('', { 'x-webhook-signature': sign(body) }, { body: Buffer.from(body) });
+
+      const res = await run(contactsManagerWebhook({ client, onEvent }), req);
+
+      expect(onEvent).toHaveBeenCalledWith(userCreated, req);
+      expect(res.statusCode).toBe(200);
+    });
+
+    it("should apply the client's webhook tolerance unless the middleware overrides it", async () => {
+      const strict = new ContactsManagerClient({ ...mockClientConfig, webhookSecret, webhookToleranceSeconds: 60 });
+      const body = JSON.stringify(userCreated);
+      const header = sign(body, Math.floor(Date.now() / 1000) - 600);
+
+      const rejected = await run(
+        contactsManagerWebhook({ client: strict, onEvent: jest.fn() }),
+        mockRequest(body, { 'x-webhook-signature': header })
+      );
+      const replayProtected = await run(
+        contactsManagerWebhook({ client: strict, replayProtection: true, onEvent: jest.fn() }),
+        mockRequest(body, { 'x-webhook-signature': header })
+      );
+      const overridden = await run(
+        contactsManagerWebhook({ client: strict, toleranceSeconds: 900, onEvent: jest.fn() }),
+        mockRequest(body, { 'x-webhook-signature': header })
+      );
+
+      expect(rejected.statusCode).toBe(401);
+      expect(rejected.body).toEqual({ error: 'stale_timestamp' });
+      expect(replayProtected.statusCode).toBe(401);
+      expect(replayProtected.body).toEqual({ error: 'stale_timestamp' });
+      expect(overridden.statusCode).toBe(200);
+    });
+
+    it('should respond 401 for missing or invalid signatures', async () => {
+      const onEvent = jest.fn();
+      const middleware = contactsManagerWebhook({ secret: webhookSecret, onEvent });
+      const body = JSON.stringify(userCreated);
+
+      const missing = await run(middleware, mockRequest(body));
+      const invalid = await run(middleware, mockRequest(body, { 'x-webhook-signature': sign(body, undefined, 'wrong') }));
+
+      expect(missing.statusCode).toBe(401);
+      expect(missing.body).toEqual({ error: 'missing_header' });
+      expect(invalid.statusCode).toBe(401);
+      expect(invalid.body).toEqual({ error: 'invalid_signature' });
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+
+    it('should respond 400 for signed bodies that are not events', async () => {
+      const body = JSON.stringify({ hello: 'world' });
+
+      const res = await run(
+        contactsManagerWebhook({ secret: webhookSecret, onEvent: jest.fn() }),
+        mockRequest(body, { 'x-webhook-signature': sign(body) })
+      );
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toEqual({ error: 'malformed_payload' });
+    });
+
+    it('should respond 413 when the body exceeds the limit', async () => {
+      const body = JSON.stringify(userCreated);
+
+      const res = await run(
+        contactsManagerWebhook({ secret: webhookSecret, onEvent: jest.fn(), limit: 16 }),
+        mockRequest(body, { 'x-webhook-signature': sign(body) })
+      );
+
+      expect(res.statusCode).toBe(413);
+      expect(res.body).toEqual({ error: 'body_too_large' });
+    });
+
+    it('should respond 500 and report the error when onEvent fails', async () => {
+      const failure = new Error('database unavailable');
+      const onError = jest.fn();
+      const body = JSON.stringify(userCreated);
+
+      const res = await run(
+        contactsManagerWebhook({ secret: webhookSecret, onEvent: async () => { throw failure; }, onError }),
+        mockRequest(body, { 'x-webhook-signature': sign(body) })
+      );
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body).toEqual({ error: 'handler_failed' });
+      expect(onError).toHaveBeenCalledWith(failure, userCreated);
+    });
+
+    it('should pass an already parsed body to next', async () => {
+      const next = jest.fn();
+      const body = JSON.stringify(userCreated);
+
+      const res = await run(
+        contactsManagerWebhook({ secret: webhookSecret, onEvent: jest.fn() }),
+        mockRequest('', { 'x-webhook-signature': sign(body) }, { body: userCreated }),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringMatching(/already parsed/) }));
+      expect(res.end).not.toHaveBeenCalled();
+    });
+
+    it('should reject replayed deliveries when replay protection is enabled', async () => {
+      const receiver = new ContactsManagerClient({ ...mockClientConfig, webhookSecret });
+      const onEvent = jest.fn();
+      const middleware = contactsManagerWebhook({ client: receiver, onEvent, replayProtection: true });
+      const body = JSON.stringify(userCreated);
+      const header = sign(body);
+
+      const first = await run(middleware, mockRequest(body, { 'x-webhook-signature': header }));
+      const replay = await run(middleware, mockRequest(body, { 'x-webhook-signature': header }));
+
+      expect(first.statusCode).toBe(200);
+      expect(replay.statusCode).toBe(200);
+      expect(replay.body).toEqual({ received: true, duplicate: true });
+      expect(onEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should accept the retry of a delivery whose handler failed', async () => {
+      const receiver = new ContactsManagerClient({ ...mockClientConfig, webhookSecret });
+      const onEvent = jest.fn().mockRejectedValueOnce(new Error('database down')).mockResolvedValue(undefined);
+      const middleware = contactsManagerWebhook({ client: receiver, onEvent, replayProtection: true });
+      const body = JSON.stringify(userCreated);
+      const header = sign(body);
+
+      const failed = await run(middleware, mockRequest(body, { 'x-webhook-signature': header }));
+      const retried = await run(middleware, mockRequest(body, { 'x-webhook-signature': header }));
+
+      expect(failed.statusCode).toBe(500);
+      expect(failed.body).toEqual({ error: 'handler_failed' });
+      expect(retried.statusCode).toBe(200);
+      expect(retried.body).toEqual({ received: true });
+      expect(onEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('should validate its options', () => {
+      expect(() => contactsManagerWebhook({ onEvent: jest.fn() })).toThrow('Specify either client or secret');
+      expect(() => contactsManagerWebhook({ client, secret: webhookSecret, onEvent: jest.fn() }))
+        .toThrow('Specify either client or secret');
+      expect(() => contactsManagerWebhook({ secret: webhookSecret, onEvent: jest.fn(), replayProtection: true }))
+        .toThrow('replayProtection requires a client');
+      expect(() => contactsManagerWebhook({ secret: webhookSecret, onEvent: jest.fn(), limit: 0 }))
+        .toThrow('limit must be a positive integer');
+    });
+  });
+
+  describe('handleWebhookRequest', () => {
+    const url = 'https://example.com/webhooks/contactsmanager';
+    const postRequest = (body: string, headers: Record<string, string> = {}) =>
+      new Request(url, { method: 'POST', body, headers });
+
+    it('should load without Node.js modules or jsonwebtoken', async () => {
+      let isolatedHandleWebhookRequest: typeof handleWebhookRequest | undefined;
+      jest.isolateModules(() => {
+        for (const name of ['crypto', 'http', 'stream', 'buffer', 'jsonwebtoken']) {
+          jest.doMock(name, () => {
+            throw new Error(`webhook-fetch must not load ${name}`);
+          });
+        }
+        isolatedHandleWebhookRequest = jest.requireActual<typeof import('./webhook-fetch')>('./webhook-fetch')
+          .handleWebhookRequest;
+      });
+      if (!isolatedHandleWebhookRequest) {
+        throw new Error('webhook-fetch was not loaded');
+      }
+      const body = JSON.stringify(userCreated);
+      const handler = jest.fn();
+
+      const response = await isolatedHandleWebhookRequest(postRequest(body, { 'X-Webhook-Signature': sign(body) }), {
+        secret: webhookSecret,
+        handlers: { 'user.created': handler }
+      });
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should verify the request and dispatch the typed event to its handler', async () => {
+      const userCreatedHandler = jest.fn();
+      const userDeletedHandler = jest.fn();
+      const body = JSON.stringify(userCreated);
+      const request = postRequest(body, { 'X-Webhook-Signature': sign(body) });
+
+      const response = await handleWebhookRequest(request, {
+        secret: webhookSecret,
+        handlers: {
+          'user.created': userCreatedHandler,
+          'user.deleted': userDeletedHandler
+        }
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('application/json');
+      await expect(response.json()).resolves.toEqual({ received: true });
+      expect(userCreatedHandler).toHaveBeenCalledWith(userCreated, request);
+      expect(userDeletedHandler).not.toHaveBeenCalled();
+    });
+
+    it('should accept the same signatures as verifyWebhookSignature', async () => {
+      const handler = jest.fn();
+      const body = JSON.stringify({ ...userCreated, note: 'caf\u00e9 \u2713' });
+      const header = `t=${Math.floor(Date.now() / 1000)},v1=deadbeef,${sign(body, undefined, 'new-secret').split(',')[1]}`;
+
+      const response = await handleWebhookRequest(postRequest(body, { 'x-webhook-signature': header }), {
+        secret: [webhookSecret, 'new-secret'],
+        handlers: { 'user.created': handler }
+      });
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(new ContactsManagerClient({ ...mockClientConfig, webhookSecret: 'new-secret' })
+        .verifyWebhookSignature(body, header)).toBe(true);
+    });
+
+    it('should acknowledge events without a handler', async () => {
+      const body = JSON.stringify(userCreated);
+
+      const response = await handleWebhookRequest(postRequest(body, { 'x-webhook-signature': sign(body) }), {
+        secret: webhookSecret,
+        handlers: {}
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should respond 401 for missing, invalid or stale signatures', async () => {
+      const body = JSON.stringify(userCreated);
+      const options = { secret: webhookSecret, handlers: { 'user.created': jest.fn() } };
+
+      const missing = await handleWebhookRequest(postRequest(body), options);
+      const invalid = await handleWebhookRequest(
+        postRequest(body, { 'x-webhook-signature': sign(body, undefined, 'wrong') }),
+        options
+      );
+      const stale = await handleWebhookRequest(
+        postRequest(body, { 'x-webhook-signature': sign(body, Math.floor(Date.now() / 1000) - 901) }),
+        options
+      );
+
+      expect(missing.status).toBe(401);
+      await expect(missing.json()).resolves.toEqual({ error: 'missing_header' });
+      expect(invalid.status).toBe(401);
+      await expect(invalid.json()).resolves.toEqual({ error: 'invalid_signature' });
+      expect(stale.status).toBe(401);
+      await expect(stale.json()).resolves.toEqual({ error: 'stale_timestamp' });
+      expect(options.handlers['user.created']).not.toHaveBeenCalled();
+    });
+
+    it('should reject the same signatures as verifyWebhookSignature', async () => {
+      const body = JSON.stringify(userCreated);
+      const upperCase = sign(body).replace(/v1=(\w+)/, (_, signature: string) => `v1=${signature.toUpperCase()}`);
+
+      const response = await handleWebhookRequest(postRequest(body, { 'x-webhook-signature': upperCase }), {
+        secret: webhookSecret,
+        handlers: {}
+      });
+
+      expect(client.verifyWebhookSignature(body, upperCase)).toBe(false);
+      expect(response.status).toBe(401);
+      await expect(response.json()).resolves.toEqual({ error: 'invalid_signature' });
+    });
+
+    it('should respond 400 for signed bodies that are not events', async () => {
+      const body = 'not json';
+
+      const response = await handleWebhookRequest(postRequest(body, { 'x-webhook-signature': sign(body) }), {
+        secret: webhookSecret,
+        handlers: {}
+      });
+
+      expect(response.status).toBe(400);
+      await expect(response.json()).resolves.toEqual({ error: 'malformed_payload' });
+    });
+
+    it('should respond 413 when the body exceeds the limit', async () => {
+      const body = JSON.stringify(userCreated);
+
+      const response = await handleWebhookRequest(postRequest(body, { 'x-webhook-signature': sign(body) }), {
+        secret: webhookSecret,
+        handlers: {},
+        limit: 16
+      });
+
+      expect(response.status).toBe(413);
+    });
+
+    it('should respond 500 and report the error when a handler fails', async () => {
+      const failure = new Error('database unavailable');
+      const onError = jest.fn();
+      const body = JSON.stringify(userCreated);
+
+      const response = await handleWebhookRequest(postRequest(body, { 'x-webhook-signature': sign(body) }), {
+        secret: webhookSecret,
+        handlers: { 'user.created': async () => { throw failure; } },
+        onError
+      });
+
+      expect(response.status).toBe(500);
+      await expect(response.json()).resolves.toEqual({ error: 'handler_failed' });
+      expect(onError).toHaveBeenCalledWith(failure, userCreated);
+    });
+
+    it('should reject invalid options', async () => {
+      const request = postRequest('{}');
+
+      await expect(handleWebhookRequest(request, { secret: '', handlers: {} }))
+        .rejects.toThrow('Webhook secret is required');
+      await expect(handleWebhookRequest(request, { secret: webhookSecret, handlers: {}, limit: 1.5 }))
+        .rejects.toThrow('limit must be a positive integer');
+    });
+  });
+
+  describe('WebhookRouter', () => {
+    const userDeleted: WebhookEvent = {
+      id: 'evt_456',
+      type: 'user.deleted',
+      created: 1609459200,
+      data: { organization_user_id: 'user-123' }
+    };
+
+    it('should run the handlers for the event type, then wildcard handlers', async () => {
+      const calls: string[] = [];
+      const router = new WebhookRouter()
+        .on('*', () => { calls.push('wildcard'); })
+        .on('user.deleted', event => { calls.push(`deleted ${event.data.organization_user_id}`); })
+        .on('user.created', () => { calls.push('created'); });
+
+      const result = await router.dispatch(userDeleted);
+
+      expect(calls).toEqual(['deleted user-123', 'wildcard']);
+      expect(result).toMatchObject({ event: userDeleted, handled: true, ok: true });
+      expect(result.outcomes.map(outcome => [outcome.route, outcome.status])).toEqual([
+        ['user.deleted', 'succeeded'],
+        ['*', 'succeeded']
+      ]);
+    });
+
+    it('should run fallback handlers for events without a handler for their type', async () => {
+      const fallback = jest.fn();
+      const deleted = jest.fn();
+      const router = new WebhookRouter().on('user.deleted', deleted).fallback(fallback, { name: 'unknown-events' });
+      const futureEvent = { ...userDeleted, type: 'user.archived' } as unknown as WebhookEvent;
+
+      const result = await router.dispatch(futureEvent);
+      await router.dispatch(userDeleted);
+
+      expect(fallback).toHaveBeenCalledTimes(1);
+      expect(fallback).toHaveBeenCalledWith(futureEvent, expect.objectContaining({ signal: expect.anything() }));
+      expect(deleted).toHaveBeenCalledTimes(1);
+      expect(result.outcomes).toEqual([
+        expect.objectContaining({ route: 'fallback', name: 'unknown-events', status: 'succeeded' })
+      ]);
+    });
+
+    it('should report events without handlers as unhandled', async () => {
+      const result = await new WebhookRouter().on('user.created', jest.fn()).dispatch(userDeleted);
+
+      expect(result).toEqual({ event: userDeleted, handled: false, ok: true, outcomes: [] });
+    });
+
+    it('should isolate failing handlers', async () => {
+      const failure = new Error('search index unavailable');
+      const audit = jest.fn();
+      const router = new WebhookRouter()
+        .on('user.deleted', async function removeFromSearch() { throw failure; })
+        .on('user.deleted', audit, { name: 'audit' });
+
+      const result = await router.dispatch(userDeleted);
+
+      expect(audit).toHaveBeenCalledTimes(1);
+      expect(result.ok).toBe(false);
+      expect(result.outcomes).toEqual([
+        expect.objectContaining({ name: 'removeFromSearch', status: 'failed', error: failure }),
+        expect.objectContaining({ name: 'audit', status: 'succeeded' })
+      ]);
+    });
+
+    it('should time out slow handlers and abort their signal', async () => {
+      let signal: AbortSignal | undefined;
+      const router = new WebhookRouter({ timeoutMs: 1000 })
+        .on('user.deleted', (_, context) => {
+          signal = context.signal;
+          return new Promise(() => undefined);
+        }, { name: 'slow', timeoutMs: 20 })
+        .on('*', () => new Promise(resolve => setTimeout(resolve, 5)), { name: 'fast' });
+
+      const result = await router.dispatch(userDeleted);
+
+      expect(signal?.aborted).toBe(true);
+      expect(result.ok).toBe(false);
+      expect(result.outcomes[0]).toMatchObject({ name: 'slow', status: 'timed_out' });
+      expect(result.outcomes[0].error).toBeInstanceOf(WebhookHandlerTimeoutError);
+      expect((result.outcomes[0].error as WebhookHandlerTimeoutError).timeoutMs).toBe(20);
+      expect(result.outcomes[1]).toMatchObject({ name: 'fast', status: 'succeeded' });
+    });
+
+    it('should throw a WebhookDispatchError from its event handler when a handler failed', async () => {
+      const router = new WebhookRouter().on('user.deleted', () => { throw new Error('boom'); }, { name: 'cleanup' });
+      const onEvent = router.asEventHandler();
+
+      const error = await onEvent(userDeleted).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(WebhookDispatchError);
+      expect(error.message).toBe('Webhook handlers failed for event evt_456: cleanup');
+      expect(error.result.outcomes[0].status).toBe('failed');
+      await expect(router.asEventHandler()(userCreated as WebhookEvent)).resolves.toMatchObject({ ok: true });
+    });
+
+    it('should verify requests with the client and reject replays', async () => {
+      const receiver = new ContactsManagerClient({ ...mockClientConfig, webhookSecret });
+      const handler = jest.fn();
+      const router = receiver.createWebhookRouter().on('user.created', handler);
+      const body = JSON.stringify(userCreated);
+      const header = sign(body);
+
+      await expect(router.receive(body, header)).resolves.toMatchObject({ ok: true, handled: true });
+      await expect(router.receive(body, header)).rejects.toMatchObject({ reason: 'replayed' });
+      await expect(new WebhookRouter().receive(body, header)).rejects.toThrow('receive() requires a router created with a client');
+      expect(handler).toHaveBeenCalledWith(userCreated, expect.anything());
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release a delivery whose handlers failed so its retry is dispatched', async () => {
+      const receiver = new ContactsManagerClient({ ...mockClientConfig, webhookSecret });
+      const handler = jest.fn().mockRejectedValueOnce(new Error('database down')).mockResolvedValue(undefined);
+      const router = receiver.createWebhookRouter().on('user.created', handler);
+      const body = JSON.stringify(userCreated);
+      const header = sign(body);
+
+      await expect(router.receive(body, header)).resolves.toMatchObject({ ok: false });
+      await expect(router.receive(body, header)).resolves.toMatchObject({ ok: true });
+      await expect(router.receive(body, header)).rejects.toMatchObject({ reason: 'replayed' });
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should validate handlers and timeouts', () => {
+      expect(() => new WebhookRouter({ timeoutMs: 0 })).toThrow('timeoutMs must be a positive number');
+      expect(() => new WebhookRouter().on('user.created', 'nope' as any)).toThrow('Webhook handler must be a function');
+      expect(() => new WebhookRouter().fallback(jest.fn(), { timeoutMs: -1 })).toThrow('timeoutMs must be a positive number');
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Webhook signature verification and typed events for ContactsManager SDK
+ */
+
+import crypto from 'crypto';
+import {
+  WebhookEvent,
+  WebhookEventOfType,
+  WebhookEventType,
+  WebhookSignatureError,
+  WebhookSignatureHeader,
+  WebhookVerifyOptions,
+  WEBHOOK_SIGNATURE_HEADER,
+  parseTimelySignatureHeader,
+} from './webhook-core';
+
+// Runtime-independent parts, re-exported so Node.js code can keep importing from here
+export {
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookSignatureErrorReason,
+  WebhookSignatureError,
+  WebhookEventBase,
+  UserCreatedEvent,
+  UserUpdatedEvent,
+  UserDeletedEvent,
+  ContactMatchedEvent,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookEventOfType,
+  WebhookVerifyOptions,
+  WebhookSignatureHeader,
+  parseSignatureHeader,
+  parseWebhookEvent,
+} from './webhook-core';
+
+/**
+ * Compute the signature of a webhook payload
+ *
+ * @param payload Raw request body
+ * @param timestamp Signature timestamp in seconds
+ * @param secret Webhook secret
+ * @returns Hex-encoded HMAC-SHA256 signature
+ */
+export function computeWebhookSignature(payload: string | Buffer, timestamp: number, secret: string): string {
+  const signedPayload = typeof payload === 'string'
+    ? `${timestamp}.${payload}`
+    : Buffer.concat([Buffer.from(`${timestamp}.`), payload]);
+  return crypto
+    .createHmac('sha256', secret)
+    .update(signedPayload)
+    .digest('hex');
+}
+
+/**
+ * Interface for webhook signing options
+ */
+export interface SignWebhookOptions {
+  timestamp?: number | Date; // Signature time, as a Date or Unix seconds (default: now)
+}
+
+/**
+ * Build the signature header for a webhook payload, as ContactsManager does
+ *
+ * Useful for testing webhook handlers; the verifier checks signatures with the same code.
+ *
+ * @param payload Request body; objects are serialized with JSON.stringify
+ * @param secret Webhook secret
+ * @param options Optional signature time
+ * @returns Signature header value (`t=<timestamp>,v1=<signature>`)
+ */
+export function signWebhookPayload(
+  payload: string | Buffer | object,
+  secret: string,
+  options: SignWebhookOptions = {}
+): string {
+  if (!secret || typeof secret !== 'string') {
+    throw new Error('Webhook secret is required and must be a string');
+  }
+
+  const seconds = toUnixSeconds(options.timestamp);
+  const body = typeof payload === 'string' || Buffer.isBuffer(payload) ? payload : JSON.stringify(payload);
+  return `t=${seconds},v1=${computeWebhookSignature(body, seconds, secret)}`;
+}
+
+/**
+ * Interface for test webhook request options
+ */
+export interface TestWebhookRequestOptions extends SignWebhookOptions {
+  secret: string; // Webhook secret to sign with
+  id?: string; // Event id (default: random)
+  created?: number; // Event creation time in Unix seconds (default: the signature time)
+}
+
+/**
+ * Interface for a signed test webhook request
+ */
+export interface TestWebhookRequest<E extends WebhookEvent = WebhookEvent> {
+  event: E;
+  body: string; // Raw JSON body
+  headers: Record<string, string>; // Content type and signature headers
+}
+
+/**
+ * Create a signed webhook request for testing handlers
+ *
+ * @param eventType Event type
+ * @param data Event data for that type
+ * @param options Secret, and optional event id and times
+ * @returns Event, raw body and headers
+ */
+export function createTestWebhookRequest<T extends WebhookEventType>(
+  eventType: T,
+  data: WebhookEventOfType<T>['data'],
+  options: TestWebhookRequestOptions
+): TestWebhookRequest<WebhookEventOfType<T>> {
+  const { secret, id = `evt_${crypto.randomUUID().replace(/-/g, '')}` } = options;
+  const timestamp = toUnixSeconds(options.timestamp);
+
+  const event = { id, type: eventType, created: options.created ?? timestamp, data } as WebhookEventOfType<T>;
+  const body = JSON.stringify(event);
+
+  return {
+    event,
+    body,
+    headers: {
+      'content-type': 'application/json',
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, secret, { timestamp }),
+    },
+  };
+}
+
+/**
+ * Convert a signature time to Unix seconds
+ */
+function toUnixSeconds(timestamp: number | Date = new Date()): number {
+  const seconds = timestamp instanceof Date ? Math.floor(timestamp.getTime() / 1000) : timestamp;
+  if (!Number.isSafeInteger(seconds) || seconds < 0) {
+    throw new Error('timestamp must be a Date or a non-negative integer number of seconds');
+  }
+  return seconds;
+}
+
+/**
+ * Compare two signatures in constant time, without throwing for different lengths
+ */
+function signaturesMatch(provided: string, expected: string): boolean {
+  const providedBuffer = Buffer.from(provided);
+  const expectedBuffer = Buffer.from(expected);
+  return providedBuffer.length === expectedBuffer.length && crypto.timingSafeEqual(providedBuffer, expectedBuffer);
+}
+
+/**
+ * Verify the signature of a raw webhook body
+ *
+ * The body must be the exact bytes received; parsing and re-serializing it changes the
+ * signed content. The request is accepted if any v1 signature matches any of the secrets.
+ *
+ * @param rawBody Raw request body, exactly as received
+ * @param header Signature header value
+ * @param secrets Webhook secret, or several while rotating secrets
+ * @param options Tolerance and clock
+ * @returns The parsed signature header
+ */
+export function verifyWebhookPayload(
+  rawBody: string | Buffer,
+  header: string | undefined,
+  secrets: string | string[],
+  options: WebhookVerifyOptions = {}
+): WebhookSignatureHeader {
+  const { timestamp, signatures } = parseTimelySignatureHeader(header, options);
+
+  const secretList = Array.isArray(secrets) ? secrets : [secrets];
+  const matched = secretList.some(secret => {
+    const expected = computeWebhookSignature(rawBody, timestamp, secret);
+    return signatures.some(signature => signaturesMatch(signature, expected));
+  });
+  if (!matched) {
+    throw new WebhookSignatureError('Webhook signature does not match', 'invalid_signature');
+  }
+
+  return { timestamp, signatures };
+}